@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "AuthProvider" AS ENUM ('GOOGLE');
+
+-- CreateTable
+CREATE TABLE "Identity" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "provider" "AuthProvider" NOT NULL,
+    "providerUserId" TEXT NOT NULL,
+    "email" TEXT,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Identity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Identity_userId_idx" ON "Identity"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Identity_provider_providerUserId_key" ON "Identity"("provider", "providerUserId");
+
+-- AddForeignKey
+ALTER TABLE "Identity" ADD CONSTRAINT "Identity_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: mover User.googleId a Identity
+INSERT INTO "Identity" ("id", "userId", "provider", "providerUserId", "email", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, "id", 'GOOGLE', "googleId", "email", "createdAt", CURRENT_TIMESTAMP
+FROM "User"
+WHERE "googleId" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "User_googleId_idx";
+
+-- DropIndex
+DROP INDEX "User_googleId_key";
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "googleId";
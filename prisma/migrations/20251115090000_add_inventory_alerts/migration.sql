@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "AdminNotificationType" AS ENUM ('INVENTORY_DIGEST');
+
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN     "autoDeactivatedAt" TIMESTAMP(3),
+ADD COLUMN     "lowStockThreshold" INTEGER;
+
+-- CreateTable
+CREATE TABLE "AdminNotification" (
+    "id" TEXT NOT NULL,
+    "type" "AdminNotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "data" JSONB,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AdminNotification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AdminNotification_type_idx" ON "AdminNotification"("type");
+
+-- CreateIndex
+CREATE INDEX "AdminNotification_readAt_idx" ON "AdminNotification"("readAt");
+
+-- CreateIndex
+CREATE INDEX "AdminNotification_createdAt_idx" ON "AdminNotification"("createdAt");
+
+-- Backfill: variantes ya desactivadas con stock 0 se consideran desactivadas automáticamente
+UPDATE "ProductVariant"
+SET "autoDeactivatedAt" = "updatedAt"
+WHERE "isActive" = false AND "stock" = 0;
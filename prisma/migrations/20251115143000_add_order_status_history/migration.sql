@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "OrderActorType" AS ENUM ('CUSTOMER', 'ADMIN');
+
+-- CreateTable
+CREATE TABLE "OrderStatusHistory" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "OrderStatus",
+    "toStatus" "OrderStatus" NOT NULL,
+    "actorType" "OrderActorType" NOT NULL,
+    "actorId" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderStatusHistory_orderId_idx" ON "OrderStatusHistory"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderStatusHistory_actorId_idx" ON "OrderStatusHistory"("actorId");
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusHistory" ADD CONSTRAINT "OrderStatusHistory_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusHistory" ADD CONSTRAINT "OrderStatusHistory_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: reconstruir el historial de órdenes existentes a partir de sus timestamps
+-- (el admin que hizo cada cambio no se registraba, queda actorId null)
+INSERT INTO "OrderStatusHistory" ("id", "orderId", "fromStatus", "toStatus", "actorType", "actorId", "createdAt")
+SELECT gen_random_uuid()::text, "id", NULL, 'PENDING_PAYMENT', 'CUSTOMER', "userId", "createdAt"
+FROM "Order";
+
+INSERT INTO "OrderStatusHistory" ("id", "orderId", "fromStatus", "toStatus", "actorType", "createdAt")
+SELECT gen_random_uuid()::text, "id", 'PENDING_PAYMENT', 'PAGO_CONFIRMADO', 'ADMIN', "paidAt"
+FROM "Order"
+WHERE "paidAt" IS NOT NULL;
+
+INSERT INTO "OrderStatusHistory" ("id", "orderId", "fromStatus", "toStatus", "actorType", "createdAt")
+SELECT gen_random_uuid()::text, "id", 'PAGO_CONFIRMADO', 'EN_CAMINO', 'ADMIN', "shippedAt"
+FROM "Order"
+WHERE "shippedAt" IS NOT NULL;
+
+INSERT INTO "OrderStatusHistory" ("id", "orderId", "fromStatus", "toStatus", "actorType", "createdAt")
+SELECT gen_random_uuid()::text, "id", 'EN_CAMINO', 'ENTREGADO', 'ADMIN', "deliveredAt"
+FROM "Order"
+WHERE "deliveredAt" IS NOT NULL;
+
+INSERT INTO "OrderStatusHistory" ("id", "orderId", "fromStatus", "toStatus", "actorType", "createdAt")
+SELECT gen_random_uuid()::text, "id", NULL, 'CANCELADO', 'ADMIN', "cancelledAt"
+FROM "Order"
+WHERE "cancelledAt" IS NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "OrderActorType" ADD VALUE 'SYSTEM';
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "PaymentProofStatus" AS ENUM ('PENDING_REVIEW', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "paymentAmount" DECIMAL(10,2),
+ADD COLUMN     "paymentPayerName" TEXT,
+ADD COLUMN     "paymentProofStatus" "PaymentProofStatus",
+ADD COLUMN     "paymentProofUploadedAt" TIMESTAMP(3),
+ADD COLUMN     "paymentReference" TEXT,
+ADD COLUMN     "paymentRejectionReason" TEXT,
+ADD COLUMN     "paymentReviewedAt" TIMESTAMP(3),
+ADD COLUMN     "paymentReviewedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Order_paymentProofStatus_idx" ON "Order"("paymentProofStatus");
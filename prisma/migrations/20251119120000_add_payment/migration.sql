@@ -0,0 +1,105 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING_REVIEW', 'VERIFIED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "Currency" AS ENUM ('USD', 'VES');
+
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "amount" DECIMAL(14,2) NOT NULL,
+    "currency" "Currency" NOT NULL DEFAULT 'USD',
+    "exchangeRate" DECIMAL(14,4),
+    "amountUsd" DECIMAL(10,2) NOT NULL,
+    "reference" TEXT,
+    "bank" TEXT,
+    "payerName" TEXT,
+    "proof" TEXT,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING_REVIEW',
+    "verifiedById" TEXT,
+    "verifiedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Payment_orderId_idx" ON "Payment"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Payment_status_idx" ON "Payment"("status");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_verifiedById_fkey" FOREIGN KEY ("verifiedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: comprobantes subidos a la orden pasan a ser pagos
+INSERT INTO "Payment" ("id", "orderId", "method", "amount", "currency", "amountUsd", "reference", "payerName", "proof", "status", "verifiedById", "verifiedAt", "rejectionReason", "createdAt", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    o."id",
+    o."paymentMethod",
+    COALESCE(o."paymentAmount", o."total"),
+    'USD',
+    COALESCE(o."paymentAmount", o."total"),
+    o."paymentReference",
+    o."paymentPayerName",
+    o."paymentProof",
+    CASE o."paymentProofStatus"
+        WHEN 'APPROVED' THEN 'VERIFIED'::"PaymentStatus"
+        WHEN 'REJECTED' THEN 'REJECTED'::"PaymentStatus"
+        ELSE 'PENDING_REVIEW'::"PaymentStatus"
+    END,
+    (SELECT u."id" FROM "User" u WHERE u."id" = o."paymentReviewedById"),
+    o."paymentReviewedAt",
+    o."paymentRejectionReason",
+    COALESCE(o."paymentProofUploadedAt", o."createdAt"),
+    CURRENT_TIMESTAMP
+FROM "Order" o
+WHERE o."paymentProof" IS NOT NULL;
+
+-- Backfill: órdenes ya confirmadas a mano quedan con un pago verificado por el saldo
+INSERT INTO "Payment" ("id", "orderId", "method", "amount", "currency", "amountUsd", "status", "verifiedAt", "createdAt", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    o."id",
+    o."paymentMethod",
+    o."total" - COALESCE(p."paid", 0),
+    'USD',
+    o."total" - COALESCE(p."paid", 0),
+    'VERIFIED',
+    COALESCE(o."paidAt", o."updatedAt"),
+    COALESCE(o."paidAt", o."updatedAt"),
+    CURRENT_TIMESTAMP
+FROM "Order" o
+LEFT JOIN (
+    SELECT "orderId", SUM("amountUsd") AS "paid"
+    FROM "Payment"
+    WHERE "status" = 'VERIFIED'
+    GROUP BY "orderId"
+) p ON p."orderId" = o."id"
+WHERE o."paidAt" IS NOT NULL
+  AND o."total" > COALESCE(p."paid", 0);
+
+-- DropIndex
+DROP INDEX "Order_paymentProofStatus_idx";
+
+-- AlterTable
+ALTER TABLE "Order" DROP COLUMN "paymentAmount",
+DROP COLUMN "paymentPayerName",
+DROP COLUMN "paymentProof",
+DROP COLUMN "paymentProofStatus",
+DROP COLUMN "paymentProofUploadedAt",
+DROP COLUMN "paymentReference",
+DROP COLUMN "paymentRejectionReason",
+DROP COLUMN "paymentReviewedAt",
+DROP COLUMN "paymentReviewedById";
+
+-- DropEnum
+DROP TYPE "PaymentProofStatus";
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "ExchangeRateSource" AS ENUM ('MANUAL', 'PROVIDER');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "exchangeRate" DECIMAL(14,4),
+ADD COLUMN     "totalVes" DECIMAL(14,2);
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "rate" DECIMAL(14,4) NOT NULL,
+    "source" "ExchangeRateSource" NOT NULL,
+    "provider" TEXT,
+    "createdById" TEXT,
+    "effectiveAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_effectiveAt_idx" ON "ExchangeRate"("effectiveAt");
+
+-- AddForeignKey
+ALTER TABLE "ExchangeRate" ADD CONSTRAINT "ExchangeRate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "TaxType" AS ENUM ('IVA', 'IGTF');
+
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "taxExempt" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "igtfRate" DECIMAL(5,4),
+ADD COLUMN     "ivaRate" DECIMAL(5,4),
+ADD COLUMN     "paymentCurrency" "Currency",
+ADD COLUMN     "taxIgtf" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxIva" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "taxAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRate" DECIMAL(5,4) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "TaxRate" (
+    "id" TEXT NOT NULL,
+    "type" "TaxType" NOT NULL,
+    "rate" DECIMAL(5,4) NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaxRate_type_effectiveFrom_idx" ON "TaxRate"("type", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "TaxRate" ADD CONSTRAINT "TaxRate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Alícuotas vigentes al crear la tabla (IVA 16%, IGTF 3%)
+-- Las órdenes anteriores quedan sin impuestos, como se cobraron
+INSERT INTO "TaxRate" ("id", "type", "rate", "effectiveFrom")
+VALUES
+    (gen_random_uuid()::text, 'IVA', 0.16, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'IGTF', 0.03, CURRENT_TIMESTAMP);
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "Counter" (
+    "name" TEXT NOT NULL,
+    "value" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Counter_pkey" PRIMARY KEY ("name")
+);
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "orderNumber" TEXT;
+
+-- Backfill: numerar las órdenes existentes por fecha de creación
+UPDATE "Order" o
+SET "orderNumber" = 'DLC-' || lpad(n."number"::text, 6, '0')
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (ORDER BY "createdAt", "id") AS "number"
+    FROM "Order"
+) n
+WHERE o."id" = n."id";
+
+-- El contador sigue desde la última orden numerada
+INSERT INTO "Counter" ("name", "value", "updatedAt")
+SELECT 'order', COUNT(*), CURRENT_TIMESTAMP FROM "Order";
+
+-- AlterTable
+ALTER TABLE "Order" ALTER COLUMN "orderNumber" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_orderNumber_key" ON "Order"("orderNumber");
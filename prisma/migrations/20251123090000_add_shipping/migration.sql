@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "ShippingCarrier" AS ENUM ('MRW', 'ZOOM', 'TEALCA', 'LOCAL_DELIVERY', 'STORE_PICKUP');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingCarrier" "ShippingCarrier",
+ADD COLUMN     "shippingCost" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "shippingMethodId" TEXT,
+ADD COLUMN     "trackingNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "ShippingMethod" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "carrier" "ShippingCarrier" NOT NULL,
+    "defaultFee" DECIMAL(10,2),
+    "estimatedDelivery" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingMethod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingRate" (
+    "id" TEXT NOT NULL,
+    "shippingMethodId" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "fee" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingMethod_isActive_idx" ON "ShippingMethod"("isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShippingRate_shippingMethodId_state_key" ON "ShippingRate"("shippingMethodId", "state");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_shippingMethodId_fkey" FOREIGN KEY ("shippingMethodId") REFERENCES "ShippingMethod"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShippingRate" ADD CONSTRAINT "ShippingRate_shippingMethodId_fkey" FOREIGN KEY ("shippingMethodId") REFERENCES "ShippingMethod"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Retiro en tienda sin costo, para poder comprar apenas se despliega
+-- Las tarifas de MRW, Zoom, Tealca y delivery las carga el admin
+INSERT INTO "ShippingMethod" ("id", "name", "carrier", "defaultFee", "order", "updatedAt")
+VALUES (gen_random_uuid()::text, 'Retiro en tienda', 'STORE_PICKUP', 0, 0, CURRENT_TIMESTAMP);
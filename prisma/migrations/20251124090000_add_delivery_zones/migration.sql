@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "DeliveryFeeType" AS ENUM ('FLAT', 'WEIGHT');
+
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN     "weightGrams" INTEGER;
+
+-- CreateTable
+CREATE TABLE "DeliveryZone" (
+    "id" TEXT NOT NULL,
+    "shippingMethodId" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "municipality" TEXT,
+    "feeType" "DeliveryFeeType" NOT NULL DEFAULT 'FLAT',
+    "baseFee" DECIMAL(10,2) NOT NULL,
+    "feePerKg" DECIMAL(10,2),
+    "includedGrams" INTEGER NOT NULL DEFAULT 0,
+    "estimatedDaysMin" INTEGER,
+    "estimatedDaysMax" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeliveryZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeliveryZone_shippingMethodId_state_idx" ON "DeliveryZone"("shippingMethodId", "state");
+
+-- AddForeignKey
+ALTER TABLE "DeliveryZone" ADD CONSTRAINT "DeliveryZone_shippingMethodId_fkey" FOREIGN KEY ("shippingMethodId") REFERENCES "ShippingMethod"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Las tarifas por estado pasan a ser zonas de tarifa fija para todo el estado
+INSERT INTO "DeliveryZone" ("id", "shippingMethodId", "state", "feeType", "baseFee", "createdAt", "updatedAt")
+SELECT "id", "shippingMethodId", "state", 'FLAT', "fee", "createdAt", "updatedAt"
+FROM "ShippingRate";
+
+-- DropForeignKey
+ALTER TABLE "ShippingRate" DROP CONSTRAINT "ShippingRate_shippingMethodId_fkey";
+
+-- DropTable
+DROP TABLE "ShippingRate";
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "addressCity" TEXT,
+ADD COLUMN     "addressFullName" TEXT,
+ADD COLUMN     "addressLine" TEXT,
+ADD COLUMN     "addressMunicipality" TEXT,
+ADD COLUMN     "addressPhone" TEXT,
+ADD COLUMN     "addressReference" TEXT,
+ADD COLUMN     "addressState" TEXT;
+
+-- Las órdenes existentes toman la dirección actual (mejor dato disponible)
+UPDATE "Order" o
+SET "addressFullName"     = a."fullName",
+    "addressPhone"        = a."phone",
+    "addressState"        = a."state",
+    "addressCity"         = a."city",
+    "addressMunicipality" = a."municipality",
+    "addressLine"         = a."address",
+    "addressReference"    = a."reference"
+FROM "Address" a
+WHERE a."id" = o."addressId";
+
+-- AlterTable
+ALTER TABLE "Order" ALTER COLUMN "addressCity" SET NOT NULL,
+ALTER COLUMN "addressFullName" SET NOT NULL,
+ALTER COLUMN "addressLine" SET NOT NULL,
+ALTER COLUMN "addressPhone" SET NOT NULL,
+ALTER COLUMN "addressState" SET NOT NULL;
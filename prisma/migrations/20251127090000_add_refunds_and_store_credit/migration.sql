@@ -0,0 +1,65 @@
+-- AlterEnum
+ALTER TYPE "PaymentMethod" ADD VALUE 'STORE_CREDIT';
+
+-- CreateEnum
+CREATE TYPE "StoreCreditEntryType" AS ENUM ('REFUND', 'ORDER_PAYMENT', 'ORDER_CANCELLATION', 'ADJUSTMENT');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "storeCreditBalance" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN     "amountUsd" DECIMAL(10,2),
+ADD COLUMN     "currency" "Currency" NOT NULL DEFAULT 'USD',
+ADD COLUMN     "exchangeRate" DECIMAL(14,4),
+ADD COLUMN     "method" "PaymentMethod",
+ADD COLUMN     "notes" TEXT,
+ADD COLUMN     "processedAt" TIMESTAMP(3),
+ADD COLUMN     "processedById" TEXT,
+ADD COLUMN     "reference" TEXT,
+ALTER COLUMN "amount" SET DATA TYPE DECIMAL(14,2);
+
+-- Los reembolsos existentes estaban en USD
+UPDATE "Refund" SET "amountUsd" = "amount";
+
+-- AlterTable
+ALTER TABLE "Refund" ALTER COLUMN "amountUsd" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "StoreCreditEntry" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "StoreCreditEntryType" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "balanceAfter" DECIMAL(10,2) NOT NULL,
+    "refundId" TEXT,
+    "orderId" TEXT,
+    "createdById" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StoreCreditEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StoreCreditEntry_refundId_key" ON "StoreCreditEntry"("refundId");
+
+-- CreateIndex
+CREATE INDEX "StoreCreditEntry_userId_createdAt_idx" ON "StoreCreditEntry"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "StoreCreditEntry_orderId_idx" ON "StoreCreditEntry"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_processedById_fkey" FOREIGN KEY ("processedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StoreCreditEntry" ADD CONSTRAINT "StoreCreditEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StoreCreditEntry" ADD CONSTRAINT "StoreCreditEntry_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "Refund"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StoreCreditEntry" ADD CONSTRAINT "StoreCreditEntry_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StoreCreditEntry" ADD CONSTRAINT "StoreCreditEntry_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
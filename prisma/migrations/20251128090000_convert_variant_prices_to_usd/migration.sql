@@ -0,0 +1,74 @@
+-- Los precios de las variantes se cargaban en centavos (enteros) y ahora
+-- son USD con 2 decimales: convertir los existentes para que los totales,
+-- impuestos y montos en Bs no queden 100 veces más altos
+UPDATE "ProductVariant"
+SET "price" = ROUND("price" / 100, 2);
+
+-- Las órdenes creadas antes del cambio también guardaron sus montos en
+-- centavos. Se reconocen porque no tienen tasa de cambio: desde que se
+-- cobra en USD toda orden nueva la congela al crearse
+UPDATE "OrderItem" i
+SET "price"     = ROUND(i."price" / 100, 2),
+    "subtotal"  = ROUND(i."subtotal" / 100, 2),
+    "taxAmount" = ROUND(i."taxAmount" / 100, 2)
+FROM "Order" o
+WHERE o."id" = i."orderId"
+  AND o."exchangeRate" IS NULL;
+
+-- Pagos de esas órdenes: los que trajo el backfill de comprobantes se
+-- copiaron del total en centavos, siempre en USD y sin tasa propia
+UPDATE "Payment" p
+SET "amount"    = ROUND(p."amount" / 100, 2),
+    "amountUsd" = ROUND(p."amountUsd" / 100, 2)
+FROM "Order" o
+WHERE o."id" = p."orderId"
+  AND o."exchangeRate" IS NULL
+  AND p."currency" = 'USD'
+  AND p."exchangeRate" IS NULL;
+
+-- Reembolsos de esas órdenes, calculados sobre los montos en centavos
+UPDATE "Refund" r
+SET "amount"    = CASE WHEN r."currency" = 'USD' THEN ROUND(r."amount" / 100, 2) ELSE r."amount" END,
+    "amountUsd" = ROUND(r."amountUsd" / 100, 2)
+FROM "Order" o
+WHERE o."id" = r."orderId"
+  AND o."exchangeRate" IS NULL;
+
+-- Saldo a favor que salió de esos reembolsos o se consumió en esas órdenes
+UPDATE "StoreCreditEntry" e
+SET "amount" = ROUND(e."amount" / 100, 2)
+FROM "Order" o
+WHERE o."exchangeRate" IS NULL
+  AND (
+    o."id" = e."orderId"
+    OR o."id" = (SELECT r."orderId" FROM "Refund" r WHERE r."id" = e."refundId")
+  );
+
+-- Con los movimientos corregidos, recalcular el saldo resultante de cada
+-- movimiento y el saldo de los usuarios afectados
+UPDATE "StoreCreditEntry" e
+SET "balanceAfter" = s."balanceAfter"
+FROM (
+    SELECT "id", SUM("amount") OVER (PARTITION BY "userId" ORDER BY "createdAt", "id") AS "balanceAfter"
+    FROM "StoreCreditEntry"
+) s
+WHERE e."id" = s."id"
+  AND e."balanceAfter" <> s."balanceAfter";
+
+UPDATE "User" u
+SET "storeCreditBalance" = s."balance"
+FROM (
+    SELECT "userId", SUM("amount") AS "balance"
+    FROM "StoreCreditEntry"
+    GROUP BY "userId"
+) s
+WHERE u."id" = s."userId"
+  AND u."storeCreditBalance" <> s."balance";
+
+UPDATE "Order"
+SET "subtotal"     = ROUND("subtotal" / 100, 2),
+    "total"        = ROUND("total" / 100, 2),
+    "shippingCost" = ROUND("shippingCost" / 100, 2),
+    "taxIva"       = ROUND("taxIva" / 100, 2),
+    "taxIgtf"      = ROUND("taxIgtf" / 100, 2)
+WHERE "exchangeRate" IS NULL;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "IdentityLinkNonce" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "nonceHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IdentityLinkNonce_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IdentityLinkNonce_nonceHash_key" ON "IdentityLinkNonce"("nonceHash");
+
+-- CreateIndex
+CREATE INDEX "IdentityLinkNonce_userId_idx" ON "IdentityLinkNonce"("userId");
+
+-- CreateIndex
+CREATE INDEX "IdentityLinkNonce_expiresAt_idx" ON "IdentityLinkNonce"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "IdentityLinkNonce" ADD CONSTRAINT "IdentityLinkNonce_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IdentityLinkNonce" ADD CONSTRAINT "IdentityLinkNonce_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- Apodos repetidos (sin distinguir mayúsculas): se conserva el del usuario
+-- más antiguo y a los demás se les quita para poder crear el índice único
+UPDATE "User" u
+SET "nickname" = NULL
+WHERE u."nickname" IS NOT NULL
+  AND EXISTS (
+    SELECT 1
+    FROM "User" o
+    WHERE LOWER(o."nickname") = LOWER(u."nickname")
+      AND (o."createdAt", o."id") < (u."createdAt", u."id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_nickname_lower_key" ON "User"(LOWER("nickname"));
@@ -1,4 +1,429 @@
-import { Controller } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Patch,
+  Param,
+  Body,
+  Query,
+  Request,
+  UseGuards,
+  Res,
+  Post,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { Role } from '@prisma/client';
+import { AdminService } from './admin.service';
+import { InventoryService } from './inventory.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PaymentsService } from '../orders/payments.service';
+import { ReturnsService } from '../returns/returns.service';
+import { RefundsService } from '../refunds/refunds.service';
+import { StoreCreditService } from '../store-credit/store-credit.service';
+import {
+  ReportsService,
+  TOP_PRODUCTS_CSV,
+  TOP_VARIANTS_CSV,
+  SELL_THROUGH_CSV,
+  SIZE_SELLOUT_CSV,
+} from './reports.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { AuthRequest } from '../common/interfaces/auth-request.interface';
+import { QueryUsersDto } from './dto/query-users.dto';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
+import { UpdateUserStatusDto } from './dto/update-user-status.dto';
+import { DashboardQueryDto } from './dto/dashboard-query.dto';
+import { ReportQueryDto } from './dto/report-query.dto';
+import { QueryNotificationsDto } from '../notifications/dto/query-notifications.dto';
+import { QueryOrdersDto } from '../orders/dto/query-orders.dto';
+import { ApprovePaymentDto } from '../orders/dto/approve-payment.dto';
+import { RejectPaymentDto } from '../orders/dto/reject-payment.dto';
+import { RecordPaymentDto } from '../orders/dto/record-payment.dto';
+import { QueryReturnsDto } from '../returns/dto/query-returns.dto';
+import { ReviewReturnDto } from '../returns/dto/review-return.dto';
+import { RejectReturnDto } from '../returns/dto/reject-return.dto';
+import { QueryRefundsDto } from '../refunds/dto/query-refunds.dto';
+import { CreateRefundDto } from '../refunds/dto/create-refund.dto';
+import { ProcessRefundDto } from '../refunds/dto/process-refund.dto';
+import { QueryStoreCreditDto } from '../store-credit/dto/query-store-credit.dto';
+import { AdjustStoreCreditDto } from '../store-credit/dto/adjust-store-credit.dto';
+import { toCsv, CsvColumn } from '../common/utils/csv.util';
 
+/**
+ * Controlador del panel de administración
+ * Todas las rutas requieren rol ADMIN o SUPER_ADMIN
+ */
 @Controller('admin')
-export class AdminController {}
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPER_ADMIN)
+export class AdminController {
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly reportsService: ReportsService,
+    private readonly inventoryService: InventoryService,
+    private readonly notificationsService: NotificationsService,
+    private readonly paymentsService: PaymentsService,
+    private readonly returnsService: ReturnsService,
+    private readonly refundsService: RefundsService,
+    private readonly storeCreditService: StoreCreditService,
+  ) {}
+
+  /**
+   * GET /admin/dashboard
+   * KPIs de ventas para un rango de fechas (hora de Caracas)
+   */
+  @Get('dashboard')
+  async getDashboard(@Query() query: DashboardQueryDto) {
+    return this.adminService.getDashboard(query);
+  }
+
+  /**
+   * GET /admin/users
+   * Listar usuarios con búsqueda y filtros (role, isActive)
+   */
+  @Get('users')
+  async getUsers(@Query() query: QueryUsersDto) {
+    return this.adminService.findAllUsers(query);
+  }
+
+  /**
+   * GET /admin/users/:id
+   * Detalle de un usuario
+   */
+  @Get('users/:id')
+  async getUser(@Param('id') userId: string) {
+    return this.adminService.findUserById(userId);
+  }
+
+  /**
+   * PATCH /admin/users/:id/role
+   * Cambiar el rol de un usuario
+   */
+  @Patch('users/:id/role')
+  async updateUserRole(
+    @Request() req: AuthRequest,
+    @Param('id') userId: string,
+    @Body() dto: UpdateUserRoleDto,
+  ) {
+    return this.adminService.updateUserRole(req.user, userId, dto);
+  }
+
+  /**
+   * PATCH /admin/users/:id/status
+   * Activar o desactivar un usuario
+   */
+  @Patch('users/:id/status')
+  async updateUserStatus(
+    @Request() req: AuthRequest,
+    @Param('id') userId: string,
+    @Body() dto: UpdateUserStatusDto,
+  ) {
+    return this.adminService.updateUserStatus(req.user, userId, dto);
+  }
+
+  /**
+   * GET /admin/reports/top-products
+   * Productos más vendidos del periodo (?format=csv para descargar)
+   */
+  @Get('reports/top-products')
+  async getTopProducts(
+    @Query() query: ReportQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const report = await this.reportsService.getTopProducts(query);
+    return this.sendReport(
+      res,
+      query,
+      'top-products',
+      report,
+      TOP_PRODUCTS_CSV,
+    );
+  }
+
+  /**
+   * GET /admin/reports/top-variants
+   * Variantes más vendidas del periodo
+   */
+  @Get('reports/top-variants')
+  async getTopVariants(
+    @Query() query: ReportQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const report = await this.reportsService.getTopVariants(query);
+    return this.sendReport(
+      res,
+      query,
+      'top-variants',
+      report,
+      TOP_VARIANTS_CSV,
+    );
+  }
+
+  /**
+   * GET /admin/reports/sell-through
+   * Sell-through por variante contra el stock actual
+   */
+  @Get('reports/sell-through')
+  async getSellThrough(
+    @Query() query: ReportQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const report = await this.reportsService.getSellThrough(query);
+    return this.sendReport(
+      res,
+      query,
+      'sell-through',
+      report,
+      SELL_THROUGH_CSV,
+    );
+  }
+
+  /**
+   * GET /admin/reports/size-sellout
+   * Tallas que se agotan más rápido por producto
+   */
+  @Get('reports/size-sellout')
+  async getSizeSellout(
+    @Query() query: ReportQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const report = await this.reportsService.getSizeSellout(query);
+    return this.sendReport(
+      res,
+      query,
+      'size-sellout',
+      report,
+      SIZE_SELLOUT_CSV,
+    );
+  }
+
+  /**
+   * GET /admin/inventory/alerts
+   * Variantes con stock bajo y variantes agotadas (desactivadas por stock 0)
+   */
+  @Get('inventory/alerts')
+  async getInventoryAlerts() {
+    return this.inventoryService.getAlerts();
+  }
+
+  /**
+   * GET /admin/notifications
+   * Notificaciones del panel (?unread=true para solo no leídas)
+   */
+  @Get('notifications')
+  async getNotifications(@Query() query: QueryNotificationsDto) {
+    return this.notificationsService.findAll(query);
+  }
+
+  /**
+   * PATCH /admin/notifications/:id/read
+   * Marcar una notificación como leída
+   */
+  @Patch('notifications/:id/read')
+  async markNotificationAsRead(@Param('id') id: string) {
+    return this.notificationsService.markAsRead(id);
+  }
+
+  /**
+   * GET /admin/payments/pending
+   * Cola de pagos por verificar (los más antiguos primero)
+   */
+  @Get('payments/pending')
+  async getPendingPayments(@Query() query: QueryOrdersDto) {
+    return this.paymentsService.findPending(query);
+  }
+
+  /**
+   * POST /admin/payments/:id/approve
+   * Verificar un pago; si con él se cubre el total, la orden pasa a PAGO_CONFIRMADO
+   */
+  @Post('payments/:id/approve')
+  @HttpCode(HttpStatus.OK)
+  async approvePayment(
+    @Request() req: AuthRequest,
+    @Param('id') paymentId: string,
+    @Body() dto: ApprovePaymentDto,
+  ) {
+    return this.paymentsService.approve(paymentId, req.user.id, dto);
+  }
+
+  /**
+   * POST /admin/payments/:id/reject
+   * Rechazar un pago y pedir al cliente que reporte otro
+   */
+  @Post('payments/:id/reject')
+  @HttpCode(HttpStatus.OK)
+  async rejectPayment(
+    @Request() req: AuthRequest,
+    @Param('id') paymentId: string,
+    @Body() dto: RejectPaymentDto,
+  ) {
+    return this.paymentsService.reject(paymentId, req.user.id, dto);
+  }
+
+  /**
+   * POST /admin/orders/:orderId/payments
+   * Registrar un pago ya verificado sin comprobante (ej: efectivo)
+   */
+  @Post('orders/:orderId/payments')
+  async recordPayment(
+    @Request() req: AuthRequest,
+    @Param('orderId') orderId: string,
+    @Body() dto: RecordPaymentDto,
+  ) {
+    return this.paymentsService.record(orderId, req.user.id, dto);
+  }
+
+  /**
+   * GET /admin/returns
+   * Solicitudes de devolución y cambio (las más antiguas primero)
+   */
+  @Get('returns')
+  async getReturns(@Query() query: QueryReturnsDto) {
+    return this.returnsService.findAll(query);
+  }
+
+  /**
+   * POST /admin/returns/:id/approve
+   * Aprobar una solicitud: el cliente puede enviar el producto
+   */
+  @Post('returns/:id/approve')
+  @HttpCode(HttpStatus.OK)
+  async approveReturn(
+    @Request() req: AuthRequest,
+    @Param('id') id: string,
+    @Body() dto: ReviewReturnDto,
+  ) {
+    return this.returnsService.approve(id, req.user.id, dto);
+  }
+
+  /**
+   * POST /admin/returns/:id/receive
+   * Marcar el producto devuelto como recibido
+   */
+  @Post('returns/:id/receive')
+  @HttpCode(HttpStatus.OK)
+  async receiveReturn(
+    @Request() req: AuthRequest,
+    @Param('id') id: string,
+    @Body() dto: ReviewReturnDto,
+  ) {
+    return this.returnsService.receive(id, req.user.id, dto);
+  }
+
+  /**
+   * POST /admin/returns/:id/complete
+   * Completar: mueve el stock del cambio o crea el reembolso de la devolución
+   */
+  @Post('returns/:id/complete')
+  @HttpCode(HttpStatus.OK)
+  async completeReturn(
+    @Request() req: AuthRequest,
+    @Param('id') id: string,
+    @Body() dto: ReviewReturnDto,
+  ) {
+    return this.returnsService.complete(id, req.user.id, dto);
+  }
+
+  /**
+   * POST /admin/returns/:id/reject
+   * Rechazar una solicitud con el motivo para el cliente
+   */
+  @Post('returns/:id/reject')
+  @HttpCode(HttpStatus.OK)
+  async rejectReturn(
+    @Request() req: AuthRequest,
+    @Param('id') id: string,
+    @Body() dto: RejectReturnDto,
+  ) {
+    return this.returnsService.reject(id, req.user.id, dto);
+  }
+
+  /**
+   * GET /admin/refunds?status=PENDING
+   * Reembolsos (los más antiguos primero)
+   */
+  @Get('refunds')
+  async getRefunds(@Query() query: QueryRefundsDto) {
+    return this.refundsService.findAll(query);
+  }
+
+  /**
+   * POST /admin/refunds/:id/process
+   * Procesar un reembolso pendiente (método, moneda y referencia)
+   * Con STORE_CREDIT se abona al saldo a favor del cliente
+   */
+  @Post('refunds/:id/process')
+  @HttpCode(HttpStatus.OK)
+  async processRefund(
+    @Request() req: AuthRequest,
+    @Param('id') id: string,
+    @Body() dto: ProcessRefundDto,
+  ) {
+    return this.refundsService.process(id, req.user.id, dto);
+  }
+
+  /**
+   * POST /admin/orders/:orderId/refunds
+   * Registrar un reembolso ya hecho sobre una orden
+   */
+  @Post('orders/:orderId/refunds')
+  async createRefund(
+    @Request() req: AuthRequest,
+    @Param('orderId') orderId: string,
+    @Body() dto: CreateRefundDto,
+  ) {
+    return this.refundsService.create(orderId, req.user.id, dto);
+  }
+
+  /**
+   * GET /admin/users/:id/store-credit
+   * Saldo a favor de un usuario y sus movimientos
+   */
+  @Get('users/:id/store-credit')
+  async getStoreCredit(
+    @Param('id') userId: string,
+    @Query() query: QueryStoreCreditDto,
+  ) {
+    return this.storeCreditService.getLedger(userId, query);
+  }
+
+  /**
+   * POST /admin/users/:id/store-credit
+   * Ajustar el saldo a favor (positivo abona, negativo descuenta)
+   */
+  @Post('users/:id/store-credit')
+  async adjustStoreCredit(
+    @Request() req: AuthRequest,
+    @Param('id') userId: string,
+    @Body() dto: AdjustStoreCreditDto,
+  ) {
+    return this.storeCreditService.adjust(userId, req.user.id, dto);
+  }
+
+  /**
+   * Responde el reporte como JSON o como CSV descargable
+   */
+  private sendReport<T>(
+    res: Response,
+    query: ReportQueryDto,
+    name: string,
+    report: { range: { from: string; to: string }; data: T[] },
+    columns: CsvColumn<T>[],
+  ) {
+    if (query.format !== 'csv') {
+      return report;
+    }
+
+    const filename = `${name}_${report.range.from}_${report.range.to}.csv`;
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    // BOM para que Excel detecte UTF-8 (acentos en encabezados)
+    return '\uFEFF' + toCsv(report.data, columns);
+  }
+}
@@ -1,9 +1,27 @@
 import { Module } from '@nestjs/common';
 import { AdminService } from './admin.service';
+import { ReportsService } from './reports.service';
+import { InventoryService } from './inventory.service';
 import { AdminController } from './admin.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { OrdersModule } from '../orders/orders.module';
+import { ReturnsModule } from '../returns/returns.module';
+import { RefundsModule } from '../refunds/refunds.module';
+import { StoreCreditModule } from '../store-credit/store-credit.module';
 
 @Module({
-  providers: [AdminService],
-  controllers: [AdminController]
+  imports: [
+    PrismaModule,
+    AuthModule,
+    NotificationsModule,
+    OrdersModule,
+    ReturnsModule,
+    RefundsModule,
+    StoreCreditModule,
+  ],
+  providers: [AdminService, ReportsService, InventoryService],
+  controllers: [AdminController],
 })
 export class AdminModule {}
@@ -1,4 +1,434 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { Prisma, Role } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuthService } from '../auth/auth.service';
+import { QueryUsersDto } from './dto/query-users.dto';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
+import { UpdateUserStatusDto } from './dto/update-user-status.dto';
+import { DashboardQueryDto, DashboardGroupBy } from './dto/dashboard-query.dto';
+import { STORE_TIMEZONE } from '../common/utils/timezone.util';
+import { REVENUE_ORDER_STATUSES } from '../orders/constants/order.constants';
+import { resolveStoreDateRange } from './utils/date-range.util';
 
+type Actor = { id: string; role: Role };
+
+const USER_LIST_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  nickname: true,
+  avatar: true,
+  phone: true,
+  role: true,
+  isActive: true,
+  emailVerifiedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Servicio del panel de administración
+ * - Gestión de usuarios: búsqueda, roles y activación
+ * - Solo un SUPER_ADMIN puede otorgar o quitar privilegios de administración
+ */
 @Injectable()
-export class AdminService {}
+export class AdminService {
+  constructor(
+    private prisma: PrismaService,
+    private authService: AuthService,
+  ) {}
+
+  /**
+   * Listar usuarios con búsqueda, filtros y paginación
+   */
+  async findAllUsers(query: QueryUsersDto) {
+    const { search, role, isActive, page = 1, limit = 20 } = query;
+
+    const skip: number = (page - 1) * limit;
+
+    const where: Prisma.UserWhereInput = {};
+
+    if (search) {
+      where.OR = [
+        { email: { contains: search, mode: 'insensitive' } },
+        { name: { contains: search, mode: 'insensitive' } },
+        { nickname: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    if (role) {
+      where.role = role;
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive;
+    }
+
+    const [users, total] = await Promise.all([
+      this.prisma.user.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        select: USER_LIST_SELECT,
+      }),
+      this.prisma.user.count({ where }),
+    ]);
+
+    return {
+      data: users,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Detalle de un usuario con conteo de órdenes, direcciones y favoritos
+   */
+  async findUserById(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        ...USER_LIST_SELECT,
+        passwordHash: true,
+        identities: {
+          select: { provider: true, email: true, lastUsedAt: true },
+        },
+        _count: {
+          select: { orders: true, addresses: true, favorites: true },
+        },
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+
+    const { passwordHash, _count, ...rest } = user;
+
+    return {
+      ...rest,
+      hasPassword: passwordHash !== null,
+      ordersCount: _count.orders,
+      addressesCount: _count.addresses,
+      favoritesCount: _count.favorites,
+    };
+  }
+
+  /**
+   * Cambiar el rol de un usuario
+   * - Otorgar ADMIN/SUPER_ADMIN o modificar a un administrador requiere SUPER_ADMIN
+   * - No se puede degradar al último SUPER_ADMIN activo
+   */
+  async updateUserRole(actor: Actor, userId: string, dto: UpdateUserRoleDto) {
+    const user = await this.getUserOrFail(userId);
+
+    if (user.role === dto.role) {
+      return this.findUserById(userId);
+    }
+
+    if (
+      actor.role !== Role.SUPER_ADMIN &&
+      (dto.role !== Role.USER || user.role !== Role.USER)
+    ) {
+      throw new ForbiddenException(
+        'Solo un SUPER_ADMIN puede gestionar roles de administración',
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      if (user.role === Role.SUPER_ADMIN) {
+        await this.assertNotLastSuperAdmin(tx, userId);
+      }
+
+      await tx.user.update({
+        where: { id: userId },
+        data: { role: dto.role },
+      });
+    });
+
+    return this.findUserById(userId);
+  }
+
+  /**
+   * Activar o desactivar un usuario
+   * Al desactivar se revocan todas sus sesiones, por lo que pierde el acceso
+   * de inmediato (JwtStrategy valida sesión e isActive en cada request)
+   */
+  async updateUserStatus(
+    actor: Actor,
+    userId: string,
+    dto: UpdateUserStatusDto,
+  ) {
+    const user = await this.getUserOrFail(userId);
+
+    if (!dto.isActive && user.id === actor.id) {
+      throw new ConflictException('No puedes desactivar tu propia cuenta');
+    }
+
+    if (actor.role !== Role.SUPER_ADMIN && user.role !== Role.USER) {
+      throw new ForbiddenException(
+        'Solo un SUPER_ADMIN puede activar o desactivar administradores',
+      );
+    }
+
+    if (user.isActive !== dto.isActive) {
+      await this.prisma.$transaction(async (tx) => {
+        if (!dto.isActive && user.role === Role.SUPER_ADMIN) {
+          await this.assertNotLastSuperAdmin(tx, userId);
+        }
+
+        await tx.user.update({
+          where: { id: userId },
+          data: { isActive: dto.isActive },
+        });
+      });
+
+      if (!dto.isActive) {
+        await this.authService.revokeAllSessions(
+          userId,
+          'deactivated_by_admin',
+        );
+      }
+    }
+
+    return this.findUserById(userId);
+  }
+
+  private async getUserOrFail(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true, isActive: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+
+    return user;
+  }
+
+  /**
+   * Garantiza que siempre quede al menos otro SUPER_ADMIN activo
+   * Bloquea las filas de los SUPER_ADMIN activos hasta el fin de la
+   * transacción: dos degradaciones simultáneas se evalúan una tras otra
+   */
+  private async assertNotLastSuperAdmin(
+    tx: Prisma.TransactionClient,
+    userId: string,
+  ) {
+    await tx.$queryRaw`
+      SELECT "id" FROM "User"
+      WHERE "role" = ${Role.SUPER_ADMIN}::"Role" AND "isActive" = true
+      FOR UPDATE
+    `;
+
+    const otherSuperAdmins = await tx.user.count({
+      where: {
+        role: Role.SUPER_ADMIN,
+        isActive: true,
+        NOT: { id: userId },
+      },
+    });
+
+    if (otherSuperAdmins === 0) {
+      throw new ConflictException(
+        'No se puede degradar ni desactivar al último SUPER_ADMIN',
+      );
+    }
+  }
+
+  /**
+   * Dashboard de ventas para un rango de fechas (hora de Caracas)
+   * - Ingresos y cantidad de órdenes por día/semana/mes
+   * - Órdenes por estado y por método de pago
+   * - Ticket promedio, clientes nuevos vs recurrentes
+   * - Antigüedad de las órdenes pendientes de pago
+   */
+  async getDashboard(query: DashboardQueryDto) {
+    const { groupBy = 'day' } = query;
+    const { from, to, start, end } = resolveStoreDateRange(
+      query.from,
+      query.to,
+    );
+
+    const rangeWhere: Prisma.OrderWhereInput = {
+      createdAt: { gte: start, lt: end },
+    };
+    const revenueWhere: Prisma.OrderWhereInput = {
+      ...rangeWhere,
+      status: { in: REVENUE_ORDER_STATUSES },
+    };
+
+    const [sales, byStatus, byPaymentMethod, totals, customers, backlog] =
+      await Promise.all([
+        this.getSalesSeries(start, end, groupBy),
+        this.prisma.order.groupBy({
+          by: ['status'],
+          where: rangeWhere,
+          _count: { _all: true },
+          _sum: { total: true },
+        }),
+        this.prisma.order.groupBy({
+          by: ['paymentMethod'],
+          where: revenueWhere,
+          _count: { _all: true },
+          _sum: { total: true },
+        }),
+        this.prisma.order.aggregate({
+          where: revenueWhere,
+          _count: { _all: true },
+          _sum: { total: true },
+          _avg: { total: true },
+        }),
+        this.getCustomerBreakdown(start, end),
+        this.getPendingPaymentBacklog(),
+      ]);
+
+    return {
+      range: { from, to, groupBy, timezone: STORE_TIMEZONE },
+      summary: {
+        revenue: totals._sum.total ?? new Prisma.Decimal(0),
+        orders: totals._count._all,
+        averageOrderValue: totals._avg.total ?? new Prisma.Decimal(0),
+      },
+      sales,
+      byStatus: byStatus.map((row) => ({
+        status: row.status,
+        orders: row._count._all,
+        total: row._sum.total ?? new Prisma.Decimal(0),
+      })),
+      byPaymentMethod: byPaymentMethod.map((row) => ({
+        paymentMethod: row.paymentMethod,
+        orders: row._count._all,
+        revenue: row._sum.total ?? new Prisma.Decimal(0),
+      })),
+      customers,
+      pendingPayment: backlog,
+    };
+  }
+
+  /**
+   * Serie de ventas agrupada por periodo en hora de Caracas
+   * createdAt se guarda en UTC (timestamp sin zona), por eso la doble conversión
+   */
+  private async getSalesSeries(
+    start: Date,
+    end: Date,
+    groupBy: DashboardGroupBy,
+  ) {
+    const rows = await this.prisma.$queryRaw<
+      { period: Date; orders: number; revenue: Prisma.Decimal }[]
+    >`
+      SELECT
+        date_trunc(${groupBy}, ("createdAt" AT TIME ZONE 'UTC') AT TIME ZONE ${STORE_TIMEZONE}) AS "period",
+        COUNT(*)::int AS "orders",
+        COALESCE(SUM("total"), 0) AS "revenue"
+      FROM "Order"
+      WHERE "status"::text IN (${Prisma.join(REVENUE_ORDER_STATUSES)})
+        AND "createdAt" >= ${start}
+        AND "createdAt" < ${end}
+      GROUP BY 1
+      ORDER BY 1
+    `;
+
+    return rows.map((row) => ({
+      period: row.period.toISOString().slice(0, 10),
+      orders: row.orders,
+      revenue: row.revenue,
+    }));
+  }
+
+  /**
+   * Clientes con compras en el rango:
+   * - Nuevos: su primera compra pagada cae dentro del rango
+   * - Recurrentes: ya habían comprado antes del rango
+   */
+  private async getCustomerBreakdown(start: Date, end: Date) {
+    const [row] = await this.prisma.$queryRaw<
+      { new: number; returning: number }[]
+    >`
+      WITH "buyers" AS (
+        SELECT DISTINCT "userId"
+        FROM "Order"
+        WHERE "status"::text IN (${Prisma.join(REVENUE_ORDER_STATUSES)})
+          AND "createdAt" >= ${start}
+          AND "createdAt" < ${end}
+      ),
+      "firstPurchase" AS (
+        SELECT "userId", MIN("createdAt") AS "firstAt"
+        FROM "Order"
+        WHERE "status"::text IN (${Prisma.join(REVENUE_ORDER_STATUSES)})
+        GROUP BY "userId"
+      )
+      SELECT
+        COUNT(*) FILTER (WHERE f."firstAt" >= ${start})::int AS "new",
+        COUNT(*) FILTER (WHERE f."firstAt" < ${start})::int AS "returning"
+      FROM "buyers" b
+      JOIN "firstPurchase" f ON f."userId" = b."userId"
+    `;
+
+    return {
+      new: row?.new ?? 0,
+      returning: row?.returning ?? 0,
+    };
+  }
+
+  /**
+   * Órdenes esperando pago (independiente del rango)
+   * Se agrupan por antigüedad para detectar pagos estancados
+   */
+  private async getPendingPaymentBacklog() {
+    const now = Date.now();
+    const last24h = new Date(now - 24 * HOUR_MS);
+    const last72h = new Date(now - 72 * HOUR_MS);
+
+    const [row] = await this.prisma.$queryRaw<
+      {
+        orders: number;
+        total: Prisma.Decimal;
+        oldestAt: Date | null;
+        under24h: number;
+        between24hAnd72h: number;
+        over72h: number;
+      }[]
+    >`
+      SELECT
+        COUNT(*)::int AS "orders",
+        COALESCE(SUM("total"), 0) AS "total",
+        MIN("createdAt") AS "oldestAt",
+        COUNT(*) FILTER (WHERE "createdAt" >= ${last24h})::int AS "under24h",
+        COUNT(*) FILTER (WHERE "createdAt" < ${last24h} AND "createdAt" >= ${last72h})::int AS "between24hAnd72h",
+        COUNT(*) FILTER (WHERE "createdAt" < ${last72h})::int AS "over72h"
+      FROM "Order"
+      WHERE "status" = 'PENDING_PAYMENT'
+    `;
+
+    const oldestAt = row?.oldestAt ?? null;
+
+    return {
+      orders: row?.orders ?? 0,
+      total: row?.total ?? new Prisma.Decimal(0),
+      oldestAt,
+      oldestAgeHours: oldestAt
+        ? Math.floor((now - oldestAt.getTime()) / HOUR_MS)
+        : null,
+      ageBuckets: {
+        under24h: row?.under24h ?? 0,
+        between24hAnd72h: row?.between24hAnd72h ?? 0,
+        over72h: row?.over72h ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { IsOptional, IsIn } from 'class-validator';
+import { DateRangeQueryDto } from './date-range-query.dto';
+
+export const DASHBOARD_GROUP_BY = ['day', 'week', 'month'] as const;
+
+export type DashboardGroupBy = (typeof DASHBOARD_GROUP_BY)[number];
+
+/**
+ * DTO para consultar el dashboard de ventas
+ * Usado en GET /admin/dashboard con query params
+ */
+export class DashboardQueryDto extends DateRangeQueryDto {
+  /**
+   * Agrupación de la serie de ventas
+   * @example "day"
+   */
+  @IsIn(DASHBOARD_GROUP_BY, {
+    message: 'groupBy debe ser day, week o month',
+  })
+  @IsOptional()
+  groupBy?: DashboardGroupBy = 'day';
+}
@@ -0,0 +1,27 @@
+import { IsOptional, Matches } from 'class-validator';
+
+/**
+ * Rango de fechas para dashboard y reportes
+ * Las fechas se interpretan en hora de Caracas (America/Caracas)
+ */
+export class DateRangeQueryDto {
+  /**
+   * Fecha inicial (inclusive). Por defecto: hace 29 días
+   * @example "2025-11-01"
+   */
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'from debe tener formato YYYY-MM-DD',
+  })
+  @IsOptional()
+  from?: string;
+
+  /**
+   * Fecha final (inclusive). Por defecto: hoy
+   * @example "2025-11-30"
+   */
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'to debe tener formato YYYY-MM-DD',
+  })
+  @IsOptional()
+  to?: string;
+}
@@ -0,0 +1,65 @@
+import {
+  IsOptional,
+  IsString,
+  IsEnum,
+  IsBoolean,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { Role } from '@prisma/client';
+
+/**
+ * DTO para buscar y filtrar usuarios desde el panel de administración
+ * Usado en GET /admin/users con query params
+ */
+export class QueryUsersDto {
+  /**
+   * Buscar por email, nombre o apodo
+   * @example "juan"
+   */
+  @IsString({ message: 'search debe ser un texto' })
+  @IsOptional()
+  search?: string;
+
+  /**
+   * Filtrar por rol
+   * @example "ADMIN"
+   */
+  @IsEnum(Role, { message: 'role debe ser USER, ADMIN o SUPER_ADMIN' })
+  @IsOptional()
+  role?: Role;
+
+  /**
+   * Filtrar por estado activo/inactivo
+   * @example true
+   */
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean({ message: 'isActive debe ser verdadero o falso' })
+  @IsOptional()
+  isActive?: boolean;
+
+  /**
+   * Número de página (para paginación)
+   * @example 1
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'page debe ser un número entero' })
+  @Min(1, { message: 'page debe ser al menos 1' })
+  @IsOptional()
+  page?: number = 1;
+
+  /**
+   * Cantidad de resultados por página
+   * @example 20
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'limit debe ser un número entero' })
+  @Min(1, { message: 'limit debe ser al menos 1' })
+  @Max(100, { message: 'limit no puede ser mayor a 100' })
+  @IsOptional()
+  limit?: number = 20;
+}
@@ -0,0 +1,40 @@
+import { IsOptional, IsIn, IsInt, IsUUID, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { DateRangeQueryDto } from './date-range-query.dto';
+
+export const REPORT_FORMATS = ['json', 'csv'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/**
+ * DTO para los reportes de productos
+ * Usado en GET /admin/reports/* con query params
+ */
+export class ReportQueryDto extends DateRangeQueryDto {
+  /**
+   * Cantidad máxima de filas
+   * @example 20
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'limit debe ser un número entero' })
+  @Min(1, { message: 'limit debe ser al menos 1' })
+  @Max(500, { message: 'limit no puede ser mayor a 500' })
+  @IsOptional()
+  limit?: number = 20;
+
+  /**
+   * Limitar el reporte a un producto
+   * @example "123e4567-e89b-12d3-a456-426614174000"
+   */
+  @IsUUID('4', { message: 'productId debe ser un UUID válido' })
+  @IsOptional()
+  productId?: string;
+
+  /**
+   * Formato de respuesta: json (por defecto) o csv para descargar
+   * @example "csv"
+   */
+  @IsIn(REPORT_FORMATS, { message: 'format debe ser json o csv' })
+  @IsOptional()
+  format?: ReportFormat = 'json';
+}
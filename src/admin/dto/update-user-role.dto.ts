@@ -0,0 +1,15 @@
+import { IsEnum, IsNotEmpty } from 'class-validator';
+import { Role } from '@prisma/client';
+
+/**
+ * DTO para cambiar el rol de un usuario
+ */
+export class UpdateUserRoleDto {
+  /**
+   * Nuevo rol (ADMIN y SUPER_ADMIN solo los otorga un SUPER_ADMIN)
+   * @example "ADMIN"
+   */
+  @IsEnum(Role, { message: 'role debe ser USER, ADMIN o SUPER_ADMIN' })
+  @IsNotEmpty({ message: 'role es obligatorio' })
+  role: Role;
+}
@@ -0,0 +1,14 @@
+import { IsBoolean, IsNotEmpty } from 'class-validator';
+
+/**
+ * DTO para activar o desactivar un usuario
+ */
+export class UpdateUserStatusDto {
+  /**
+   * false desactiva la cuenta y cierra sus sesiones de inmediato
+   * @example false
+   */
+  @IsBoolean({ message: 'isActive debe ser verdadero o falso' })
+  @IsNotEmpty({ message: 'isActive es obligatorio' })
+  isActive: boolean;
+}
@@ -0,0 +1,151 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { AdminNotificationType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { STORE_TIMEZONE } from '../common/utils/timezone.util';
+
+const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+const ALERT_VARIANT_SELECT = {
+  id: true,
+  sku: true,
+  size: true,
+  color: true,
+  gender: true,
+  stock: true,
+  lowStockThreshold: true,
+  autoDeactivatedAt: true,
+  product: {
+    select: { id: true, name: true },
+  },
+} satisfies Prisma.ProductVariantSelect;
+
+type AlertVariant = Prisma.ProductVariantGetPayload<{
+  select: typeof ALERT_VARIANT_SELECT;
+}>;
+
+/**
+ * Alertas de inventario
+ * - Stock bajo: variantes activas con stock <= umbral (propio o global)
+ * - Agotadas: variantes desactivadas automáticamente al llegar a stock 0
+ * - Resumen diario en las notificaciones del panel
+ */
+@Injectable()
+export class InventoryService {
+  private readonly logger = new Logger(InventoryService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Variantes con stock bajo y variantes agotadas
+   * Solo considera productos activos
+   */
+  async getAlerts() {
+    const globalThreshold = this.getGlobalThreshold();
+
+    const [lowStock, outOfStock] = await Promise.all([
+      this.prisma.productVariant.findMany({
+        where: {
+          isActive: true,
+          product: { isActive: true },
+          OR: [
+            { lowStockThreshold: null, stock: { lte: globalThreshold } },
+            {
+              stock: {
+                lte: this.prisma.productVariant.fields.lowStockThreshold,
+              },
+            },
+          ],
+        },
+        select: ALERT_VARIANT_SELECT,
+        orderBy: [{ stock: 'asc' }, { sku: 'asc' }],
+      }),
+      this.prisma.productVariant.findMany({
+        where: {
+          isActive: false,
+          autoDeactivatedAt: { not: null },
+          product: { isActive: true },
+        },
+        select: ALERT_VARIANT_SELECT,
+        orderBy: { autoDeactivatedAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      globalThreshold,
+      lowStock: lowStock.map((variant) =>
+        this.toAlert(variant, globalThreshold),
+      ),
+      outOfStock: outOfStock.map((variant) =>
+        this.toAlert(variant, globalThreshold),
+      ),
+    };
+  }
+
+  /**
+   * Resumen diario de inventario (8:00 hora de Caracas)
+   * Solo crea la notificación si hay alertas
+   */
+  @Cron('0 8 * * *', { name: 'inventory-digest', timeZone: STORE_TIMEZONE })
+  async createDailyDigest() {
+    const alerts = await this.getAlerts();
+    const { lowStock, outOfStock } = alerts;
+
+    if (lowStock.length === 0 && outOfStock.length === 0) {
+      this.logger.log('Resumen de inventario: sin alertas');
+      return null;
+    }
+
+    const notification = await this.notificationsService.create({
+      type: AdminNotificationType.INVENTORY_DIGEST,
+      title: `Inventario: ${lowStock.length} con stock bajo, ${outOfStock.length} agotadas`,
+      message: [
+        ...lowStock.map(
+          (alert) =>
+            `Stock bajo: ${alert.productName} (${alert.sku}) - quedan ${alert.stock}`,
+        ),
+        ...outOfStock.map(
+          (alert) => `Agotada: ${alert.productName} (${alert.sku})`,
+        ),
+      ].join('\n'),
+      data: JSON.parse(JSON.stringify(alerts)) as Prisma.InputJsonValue,
+    });
+
+    this.logger.log(
+      `Resumen de inventario creado: ${lowStock.length} stock bajo, ${outOfStock.length} agotadas`,
+    );
+
+    return notification;
+  }
+
+  private toAlert(variant: AlertVariant, globalThreshold: number) {
+    return {
+      variantId: variant.id,
+      productId: variant.product.id,
+      productName: variant.product.name,
+      sku: variant.sku,
+      size: variant.size,
+      color: variant.color,
+      gender: variant.gender,
+      stock: variant.stock,
+      threshold: variant.lowStockThreshold ?? globalThreshold,
+      autoDeactivatedAt: variant.autoDeactivatedAt,
+    };
+  }
+
+  /**
+   * Umbral global (LOW_STOCK_THRESHOLD), por defecto 5 unidades
+   */
+  private getGlobalThreshold(): number {
+    const raw = process.env.LOW_STOCK_THRESHOLD;
+    const value = raw ? Number(raw) : NaN;
+
+    return Number.isInteger(value) && value >= 0
+      ? value
+      : DEFAULT_LOW_STOCK_THRESHOLD;
+  }
+}
@@ -0,0 +1,306 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, Gender, Size } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ReportQueryDto } from './dto/report-query.dto';
+import { CsvColumn } from '../common/utils/csv.util';
+import { REVENUE_ORDER_STATUSES } from '../orders/constants/order.constants';
+import { resolveStoreDateRange, StoreDateRange } from './utils/date-range.util';
+
+export interface TopProductRow {
+  productId: string;
+  productName: string;
+  unitsSold: number;
+  orders: number;
+  revenue: Prisma.Decimal;
+}
+
+export interface TopVariantRow {
+  variantId: string;
+  sku: string;
+  productId: string;
+  productName: string;
+  size: Size;
+  color: string;
+  gender: Gender;
+  unitsSold: number;
+  revenue: Prisma.Decimal;
+}
+
+export interface SellThroughRow {
+  variantId: string;
+  sku: string;
+  productName: string;
+  size: Size;
+  color: string;
+  gender: Gender;
+  unitsSold: number;
+  stock: number;
+  sellThroughRate: number;
+}
+
+export interface SizeSelloutRow {
+  productId: string;
+  productName: string;
+  size: Size;
+  unitsSold: number;
+  stock: number;
+  unitsPerDay: number;
+  daysOfStockLeft: number | null;
+  rank: number;
+}
+
+export const TOP_PRODUCTS_CSV: CsvColumn<TopProductRow>[] = [
+  { header: 'Producto', value: (row) => row.productName },
+  { header: 'Unidades', value: (row) => row.unitsSold },
+  { header: 'Órdenes', value: (row) => row.orders },
+  { header: 'Ingresos', value: (row) => row.revenue },
+];
+
+export const TOP_VARIANTS_CSV: CsvColumn<TopVariantRow>[] = [
+  { header: 'SKU', value: (row) => row.sku },
+  { header: 'Producto', value: (row) => row.productName },
+  { header: 'Talla', value: (row) => row.size },
+  { header: 'Color', value: (row) => row.color },
+  { header: 'Género', value: (row) => row.gender },
+  { header: 'Unidades', value: (row) => row.unitsSold },
+  { header: 'Ingresos', value: (row) => row.revenue },
+];
+
+export const SELL_THROUGH_CSV: CsvColumn<SellThroughRow>[] = [
+  { header: 'SKU', value: (row) => row.sku },
+  { header: 'Producto', value: (row) => row.productName },
+  { header: 'Talla', value: (row) => row.size },
+  { header: 'Color', value: (row) => row.color },
+  { header: 'Género', value: (row) => row.gender },
+  { header: 'Vendidas', value: (row) => row.unitsSold },
+  { header: 'Stock actual', value: (row) => row.stock },
+  { header: 'Sell-through', value: (row) => row.sellThroughRate },
+];
+
+export const SIZE_SELLOUT_CSV: CsvColumn<SizeSelloutRow>[] = [
+  { header: 'Producto', value: (row) => row.productName },
+  { header: 'Talla', value: (row) => row.size },
+  { header: 'Posición', value: (row) => row.rank },
+  { header: 'Vendidas', value: (row) => row.unitsSold },
+  { header: 'Stock actual', value: (row) => row.stock },
+  { header: 'Unidades por día', value: (row) => row.unitsPerDay },
+  { header: 'Días de stock', value: (row) => row.daysOfStockLeft },
+];
+
+/**
+ * Reportes de desempeño de productos
+ * - Se basan en OrderItem de órdenes pagadas (PAGO_CONFIRMADO, EN_CAMINO, ENTREGADO)
+ * - El periodo se filtra por Order.createdAt en hora de Caracas
+ */
+@Injectable()
+export class ReportsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Productos más vendidos (por unidades)
+   */
+  async getTopProducts(query: ReportQueryDto) {
+    const range = resolveStoreDateRange(query.from, query.to);
+
+    const data = await this.prisma.$queryRaw<TopProductRow[]>`
+      SELECT
+        p."id" AS "productId",
+        p."name" AS "productName",
+        SUM(oi."quantity")::int AS "unitsSold",
+        COUNT(DISTINCT oi."orderId")::int AS "orders",
+        SUM(oi."subtotal") AS "revenue"
+      FROM "OrderItem" oi
+      JOIN "Order" o ON o."id" = oi."orderId"
+      JOIN "ProductVariant" v ON v."id" = oi."variantId"
+      JOIN "Product" p ON p."id" = v."productId"
+      WHERE ${this.paidOrdersFilter(range)}
+        ${this.productFilter(query.productId)}
+      GROUP BY p."id", p."name"
+      ORDER BY "unitsSold" DESC, "revenue" DESC
+      LIMIT ${query.limit ?? 20}
+    `;
+
+    return { range: this.formatRange(range), data };
+  }
+
+  /**
+   * Variantes más vendidas (talla/color/género)
+   * Usa los datos snapshot del OrderItem al momento de la compra
+   */
+  async getTopVariants(query: ReportQueryDto) {
+    const range = resolveStoreDateRange(query.from, query.to);
+
+    const data = await this.prisma.$queryRaw<TopVariantRow[]>`
+      SELECT
+        v."id" AS "variantId",
+        v."sku",
+        p."id" AS "productId",
+        p."name" AS "productName",
+        oi."variantSize" AS "size",
+        oi."variantColor" AS "color",
+        oi."variantGender" AS "gender",
+        SUM(oi."quantity")::int AS "unitsSold",
+        SUM(oi."subtotal") AS "revenue"
+      FROM "OrderItem" oi
+      JOIN "Order" o ON o."id" = oi."orderId"
+      JOIN "ProductVariant" v ON v."id" = oi."variantId"
+      JOIN "Product" p ON p."id" = v."productId"
+      WHERE ${this.paidOrdersFilter(range)}
+        ${this.productFilter(query.productId)}
+      GROUP BY v."id", v."sku", p."id", p."name",
+        oi."variantSize", oi."variantColor", oi."variantGender"
+      ORDER BY "unitsSold" DESC, "revenue" DESC
+      LIMIT ${query.limit ?? 20}
+    `;
+
+    return { range: this.formatRange(range), data };
+  }
+
+  /**
+   * Sell-through por variante: vendidas / (vendidas + stock actual)
+   * El inventario inicial se aproxima como vendidas en el periodo + stock actual
+   * Incluye las variantes que se desactivaron solas al agotarse (100%); las
+   * desactivadas a mano por un admin quedan fuera
+   */
+  async getSellThrough(query: ReportQueryDto) {
+    const range = resolveStoreDateRange(query.from, query.to);
+
+    const data = await this.prisma.$queryRaw<SellThroughRow[]>`
+      WITH "sold" AS (
+        SELECT oi."variantId", SUM(oi."quantity")::int AS "unitsSold"
+        FROM "OrderItem" oi
+        JOIN "Order" o ON o."id" = oi."orderId"
+        WHERE ${this.paidOrdersFilter(range)}
+        GROUP BY oi."variantId"
+      )
+      SELECT
+        v."id" AS "variantId",
+        v."sku",
+        p."name" AS "productName",
+        v."size",
+        v."color",
+        v."gender",
+        COALESCE(s."unitsSold", 0) AS "unitsSold",
+        v."stock",
+        CASE
+          WHEN COALESCE(s."unitsSold", 0) + v."stock" > 0
+            THEN ROUND(COALESCE(s."unitsSold", 0)::numeric / (COALESCE(s."unitsSold", 0) + v."stock"), 4)::float8
+          ELSE 0
+        END AS "sellThroughRate"
+      FROM "ProductVariant" v
+      JOIN "Product" p ON p."id" = v."productId"
+      LEFT JOIN "sold" s ON s."variantId" = v."id"
+      WHERE (v."isActive" = true OR v."autoDeactivatedAt" IS NOT NULL)
+        AND (COALESCE(s."unitsSold", 0) > 0 OR v."stock" > 0)
+        ${this.productFilter(query.productId)}
+      ORDER BY "sellThroughRate" DESC, "unitsSold" DESC
+      LIMIT ${query.limit ?? 20}
+    `;
+
+    return { range: this.formatRange(range), data };
+  }
+
+  /**
+   * Tallas que se agotan más rápido por producto
+   * - Ritmo de venta = unidades vendidas en el periodo / días del periodo
+   * - Días de stock = stock actual de la talla / ritmo de venta
+   * - limit aplica a la cantidad de productos (los más vendidos)
+   */
+  async getSizeSellout(query: ReportQueryDto) {
+    const range = resolveStoreDateRange(query.from, query.to);
+
+    const rows = await this.prisma.$queryRaw<
+      {
+        productId: string;
+        productName: string;
+        size: Size;
+        unitsSold: number;
+        stock: number;
+      }[]
+    >`
+      WITH "sold" AS (
+        SELECT v."productId", v."size", SUM(oi."quantity")::int AS "unitsSold"
+        FROM "OrderItem" oi
+        JOIN "Order" o ON o."id" = oi."orderId"
+        JOIN "ProductVariant" v ON v."id" = oi."variantId"
+        JOIN "Product" p ON p."id" = v."productId"
+        WHERE ${this.paidOrdersFilter(range)}
+          ${this.productFilter(query.productId)}
+        GROUP BY v."productId", v."size"
+      ),
+      "topProducts" AS (
+        SELECT "productId"
+        FROM "sold"
+        GROUP BY "productId"
+        ORDER BY SUM("unitsSold") DESC
+        LIMIT ${query.limit ?? 20}
+      ),
+      "stock" AS (
+        SELECT "productId", "size", SUM("stock")::int AS "stock"
+        FROM "ProductVariant"
+        WHERE "isActive" = true
+        GROUP BY "productId", "size"
+      )
+      SELECT
+        p."id" AS "productId",
+        p."name" AS "productName",
+        s."size",
+        s."unitsSold",
+        COALESCE(st."stock", 0) AS "stock"
+      FROM "sold" s
+      JOIN "topProducts" tp ON tp."productId" = s."productId"
+      JOIN "Product" p ON p."id" = s."productId"
+      LEFT JOIN "stock" st
+        ON st."productId" = s."productId" AND st."size" = s."size"
+      ORDER BY p."name"
+    `;
+
+    const data: SizeSelloutRow[] = rows.map((row) => {
+      const unitsPerDay = row.unitsSold / range.days;
+
+      return {
+        ...row,
+        unitsPerDay: Math.round(unitsPerDay * 100) / 100,
+        daysOfStockLeft:
+          unitsPerDay > 0
+            ? Math.round((row.stock / unitsPerDay) * 10) / 10
+            : null,
+        rank: 0,
+      };
+    });
+
+    // Ordenar cada producto por días de stock (menos días = se agota antes)
+    data.sort(
+      (a, b) =>
+        a.productName.localeCompare(b.productName) ||
+        a.productId.localeCompare(b.productId) ||
+        (a.daysOfStockLeft ?? Infinity) - (b.daysOfStockLeft ?? Infinity),
+    );
+
+    let currentProductId: string | null = null;
+    let rank = 0;
+    for (const row of data) {
+      rank = row.productId === currentProductId ? rank + 1 : 1;
+      currentProductId = row.productId;
+      row.rank = rank;
+    }
+
+    return { range: this.formatRange(range), data };
+  }
+
+  private paidOrdersFilter(range: StoreDateRange) {
+    return Prisma.sql`
+      o."status"::text IN (${Prisma.join(REVENUE_ORDER_STATUSES)})
+      AND o."createdAt" >= ${range.start}
+      AND o."createdAt" < ${range.end}
+    `;
+  }
+
+  private productFilter(productId?: string) {
+    return productId ? Prisma.sql`AND p."id" = ${productId}` : Prisma.empty;
+  }
+
+  private formatRange(range: StoreDateRange) {
+    return { from: range.from, to: range.to, days: range.days };
+  }
+}
@@ -0,0 +1,54 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  todayInStoreTimezone,
+  startOfStoreDay,
+  endOfStoreDay,
+  addDays,
+} from '../../common/utils/timezone.util';
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StoreDateRange {
+  from: string;
+  to: string;
+  /** Inicio del rango (inclusive, UTC) */
+  start: Date;
+  /** Fin del rango (exclusivo, UTC) */
+  end: Date;
+  days: number;
+}
+
+/**
+ * Resuelve el rango de fechas de dashboard/reportes en hora de Caracas
+ * Por defecto: los últimos 30 días incluyendo hoy
+ */
+export function resolveStoreDateRange(
+  from?: string,
+  to?: string,
+): StoreDateRange {
+  const resolvedTo = to ?? todayInStoreTimezone();
+  const resolvedFrom = from ?? addDays(resolvedTo, -(DEFAULT_RANGE_DAYS - 1));
+
+  const start = startOfStoreDay(resolvedFrom);
+  const end = endOfStoreDay(resolvedTo);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new BadRequestException('Rango de fechas inválido');
+  }
+
+  if (start >= end) {
+    throw new BadRequestException('from no puede ser posterior a to');
+  }
+
+  const days = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+
+  if (days > MAX_RANGE_DAYS) {
+    throw new BadRequestException(
+      `El rango no puede superar ${MAX_RANGE_DAYS} días`,
+    );
+  }
+
+  return { from: resolvedFrom, to: resolvedTo, start, end, days };
+}
@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from './prisma/prisma.module';
@@ -13,12 +14,20 @@ import { FavoritesModule } from './favorites/favorites.module';
 import { UploadModule } from './upload/upload.module';
 import { AdminModule } from './admin/admin.module';
 import { AddressModule } from './address/address.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { ExchangeRatesModule } from './exchange-rates/exchange-rates.module';
+import { TaxesModule } from './taxes/taxes.module';
+import { ShippingModule } from './shipping/shipping.module';
+import { CheckoutModule } from './checkout/checkout.module';
+import { ReturnsModule } from './returns/returns.module';
+import { StoreCreditModule } from './store-credit/store-credit.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
     }),
+    ScheduleModule.forRoot(),
     PrismaModule,
     AuthModule,
     UsersModule,
@@ -30,6 +39,13 @@ import { AddressModule } from './address/address.module';
     UploadModule,
     AdminModule,
     AddressModule,
+    NotificationsModule,
+    ExchangeRatesModule,
+    TaxesModule,
+    ShippingModule,
+    CheckoutModule,
+    ReturnsModule,
+    StoreCreditModule,
   ],
   controllers: [AppController],
   providers: [AppService],
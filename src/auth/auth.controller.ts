@@ -1,9 +1,37 @@
-import { Controller, Get, Req, Res, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Body,
+  Param,
+  Delete,
+} from '@nestjs/common';
 import { Request, Response } from 'express';
 import { User } from '@prisma/client';
 import { AuthService } from './auth.service';
+import { IdentitiesService } from './identities.service';
 import { GoogleAuthGuard } from './guards/google-auth.guard';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { LocalAuthGuard } from './guards/local-auth.guard';
+import { ExchangeCodeDto } from './dto/exchange-code.dto';
+import { RegisterDto } from './dto/register.dto';
+import { TokenDto } from './dto/token.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { AuthSession } from './interfaces/auth-session.interface';
+import { ClientInfo } from './interfaces/auth-session.interface';
+import {
+  REFRESH_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE_PATH,
+  PKCE_CODE_CHALLENGE_REGEX,
+} from './constants/auth.constants';
+import { parseOAuthState } from './utils/oauth-state.util';
+import { AuthRequest } from '../common/interfaces/auth-request.interface';
 
 /**
  * Interface para extender Request con usuario autenticado
@@ -18,19 +46,42 @@ interface RequestWithUser extends Request {
  * Rutas:
  * - GET /auth/google → Iniciar login con Google
  * - GET /auth/google/callback → Callback de Google OAuth
+ * - POST /auth/exchange → Canjear código de un solo uso por tokens
+ * - POST /auth/register → Crear cuenta con email y contraseña
+ * - POST /auth/login → Login con email y contraseña
+ * - POST /auth/verify-email → Confirmar email con el token del correo
+ * - POST /auth/resend-verification → Reenviar enlace de verificación
+ * - POST /auth/forgot-password → Pedir enlace para restablecer contraseña
+ * - POST /auth/reset-password → Establecer nueva contraseña
+ * - POST /auth/refresh → Rotar refresh token y obtener nuevo access token
+ * - POST /auth/logout → Cerrar la sesión actual
+ * - POST /auth/logout-all → Cerrar todas las sesiones del usuario
  * - GET /auth/profile → Obtener perfil del usuario autenticado
+ * - GET /auth/identities → Listar métodos de login vinculados
+ * - POST /auth/identities/link-token → Token para vincular Google
+ * - DELETE /auth/identities/:id → Desvincular un proveedor
  */
 @Controller('auth')
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private identitiesService: IdentitiesService,
+  ) {}
 
   /**
    * Ruta 1: Iniciar login con Google
    *
+   * El frontend genera un code_verifier aleatorio, lo guarda
+   * (ej: sessionStorage) y envía su challenge:
+   * base64url(sha256(code_verifier)).
+   *
    * Cuando el usuario accede a esta ruta, GoogleAuthGuard
    * automáticamente redirige a Google para autorizar.
    *
-   * GET /auth/google
+   * Para vincular Google a la cuenta actual, agregar
+   * &link_token=xxx (ver POST /auth/identities/link-token).
+   *
+   * GET /auth/google?code_challenge=xxx
    */
   @Get('google')
   @UseGuards(GoogleAuthGuard)
@@ -44,29 +95,230 @@ export class AuthController {
    *
    * Google redirige aquí después de que el usuario autoriza.
    * GoogleStrategy valida el code y crea/actualiza el usuario.
-   * AuthService genera el JWT.
-   * Finalmente redirige al frontend con el token.
+   * AuthService emite un código de un solo uso ligado al challenge.
+   * Finalmente redirige al frontend con ese código (nunca con el JWT,
+   * para que el token no quede en historial, referrer ni logs).
    *
-   * GET /auth/google/callback?code=xxx
+   * GET /auth/google/callback?code=xxx&state=<code_challenge>
    */
   @Get('google/callback')
   @UseGuards(GoogleAuthGuard)
-  googleAuthCallback(@Req() req: RequestWithUser, @Res() res: Response) {
+  async googleAuthCallback(@Req() req: RequestWithUser, @Res() res: Response) {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+    // El challenge vuelve de Google en el parámetro state
+    const codeChallenge = parseOAuthState(req.query.state)?.codeChallenge;
+
+    if (!codeChallenge || !PKCE_CODE_CHALLENGE_REGEX.test(codeChallenge)) {
+      return res.redirect(`${frontendUrl}/auth/callback?error=invalid_state`);
+    }
+
     // req.user contiene el usuario de GoogleStrategy
-    const user = req.user;
+    const code = await this.authService.createAuthorizationCode(
+      req.user.id,
+      codeChallenge,
+    );
+
+    return res.redirect(
+      `${frontendUrl}/auth/callback?code=${encodeURIComponent(code)}`,
+    );
+  }
 
-    // Generar JWT para el usuario
-    const loginResponse = this.authService.login(user);
+  /**
+   * Ruta 3: Canjear el código del callback
+   *
+   * El frontend envía el código y su code_verifier.
+   * Devuelve el access token en el body y el refresh token en cookie.
+   *
+   * POST /auth/exchange
+   * Body: { code, code_verifier }
+   */
+  @Post('exchange')
+  @HttpCode(HttpStatus.OK)
+  async exchangeCode(
+    @Req() req: Request,
+    @Body() dto: ExchangeCodeDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const session = await this.authService.exchangeAuthorizationCode(
+      dto.code,
+      dto.code_verifier,
+      this.getClientInfo(req),
+    );
 
-    // Redirigir al frontend con el token en la URL
-    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-    const redirectUrl = `${frontendUrl}/auth/callback?token=${loginResponse.access_token}`;
+    return this.sendSession(res, session);
+  }
+
+  /**
+   * Ruta 4: Registro con email y contraseña
+   *
+   * Crea la cuenta, envía el email de verificación e inicia sesión.
+   *
+   * POST /auth/register
+   * Body: { email, password, name? }
+   */
+  @Post('register')
+  async register(
+    @Req() req: Request,
+    @Body() dto: RegisterDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const session = await this.authService.register(
+      dto,
+      this.getClientInfo(req),
+    );
+
+    return this.sendSession(res, session);
+  }
+
+  /**
+   * Ruta 5: Login con email y contraseña
+   *
+   * LocalAuthGuard valida las credenciales con LocalStrategy.
+   *
+   * POST /auth/login
+   * Body: { email, password }
+   */
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(LocalAuthGuard)
+  async login(
+    @Req() req: RequestWithUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const session = await this.authService.login(
+      req.user,
+      this.getClientInfo(req),
+    );
+
+    return this.sendSession(res, session);
+  }
+
+  /**
+   * Ruta 6: Confirmar email
+   *
+   * POST /auth/verify-email
+   * Body: { token }
+   */
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  verifyEmail(@Body() dto: TokenDto) {
+    return this.authService.verifyEmail(dto.token);
+  }
+
+  /**
+   * Ruta 7: Reenviar enlace de verificación
+   *
+   * POST /auth/resend-verification
+   * Headers: { Authorization: "Bearer <token>" }
+   */
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  resendVerification(@Req() req: AuthRequest) {
+    return this.authService.resendEmailVerification(req.user.id);
+  }
+
+  /**
+   * Ruta 8: Pedir enlace para restablecer contraseña
+   *
+   * Siempre responde 200 (no revela si el email existe).
+   *
+   * POST /auth/forgot-password
+   * Body: { email }
+   */
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  forgotPassword(@Body() dto: ForgotPasswordDto) {
+    return this.authService.forgotPassword(dto.email);
+  }
+
+  /**
+   * Ruta 9: Establecer nueva contraseña
+   *
+   * Cierra todas las sesiones abiertas del usuario.
+   *
+   * POST /auth/reset-password
+   * Body: { token, password }
+   */
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  resetPassword(@Body() dto: ResetPasswordDto) {
+    return this.authService.resetPassword(dto.token, dto.password);
+  }
+
+  /**
+   * Ruta 10: Renovar el access token
+   *
+   * Lee el refresh token de la cookie httpOnly, lo rota
+   * (el anterior queda invalidado) y devuelve un access token nuevo.
+   * Si el token ya había sido usado, se cierra la sesión completa.
+   *
+   * POST /auth/refresh
+   */
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const session = await this.authService.refresh(
+        this.getRefreshTokenFromCookie(req),
+        this.getClientInfo(req),
+      );
+
+      return this.sendSession(res, session);
+    } catch (error) {
+      // Cookie inválida: limpiarla para que el frontend no reintente
+      this.clearRefreshTokenCookie(res);
+      throw error;
+    }
+  }
+
+  /**
+   * Ruta 11: Cerrar la sesión actual
+   *
+   * Revoca la sesión del refresh token y borra la cookie.
+   * Los access tokens de esa sesión dejan de ser válidos.
+   *
+   * POST /auth/logout
+   */
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Req() req: Request, @Res({ passthrough: true }) res: Response) {
+    await this.authService.logout(this.getRefreshTokenFromCookie(req));
+    this.clearRefreshTokenCookie(res);
+  }
+
+  /**
+   * Ruta 12: Cerrar todas las sesiones del usuario
+   *
+   * Útil si el usuario perdió un dispositivo.
+   *
+   * POST /auth/logout-all
+   * Headers: { Authorization: "Bearer <token>" }
+   */
+  @Post('logout-all')
+  @UseGuards(JwtAuthGuard)
+  async logoutAll(
+    @Req() req: AuthRequest,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const revoked = await this.authService.revokeAllSessions(
+      req.user.id,
+      'logout_all',
+    );
+    this.clearRefreshTokenCookie(res);
 
-    return res.redirect(redirectUrl);
+    return {
+      message: 'Todas las sesiones fueron cerradas',
+      revoked,
+    };
   }
 
   /**
-   * Ruta 3: Obtener perfil del usuario autenticado
+   * Ruta 13: Obtener perfil del usuario autenticado
    *
    * Esta ruta está protegida con JwtAuthGuard.
    * Solo usuarios con JWT válido pueden acceder.
@@ -80,4 +332,106 @@ export class AuthController {
     // req.user contiene el usuario de JwtStrategy
     return req.user;
   }
+
+  /**
+   * Ruta 14: Listar métodos de login
+   *
+   * GET /auth/identities
+   * Headers: { Authorization: "Bearer <token>" }
+   */
+  @Get('identities')
+  @UseGuards(JwtAuthGuard)
+  getIdentities(@Req() req: AuthRequest) {
+    return this.identitiesService.findAllByUser(req.user.id);
+  }
+
+  /**
+   * Ruta 15: Pedir token para vincular Google
+   *
+   * El frontend redirige luego a
+   * GET /auth/google?code_challenge=xxx&link_token=yyy
+   * link_token es un nonce de un solo uso ligado a esta sesión (5 min)
+   *
+   * POST /auth/identities/link-token
+   * Headers: { Authorization: "Bearer <token>" }
+   */
+  @Post('identities/link-token')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  createLinkToken(@Req() req: AuthRequest) {
+    return this.identitiesService.createLinkToken(
+      req.user.id,
+      req.user.sessionId,
+    );
+  }
+
+  /**
+   * Ruta 16: Desvincular un proveedor
+   *
+   * No permite quitar el último método de login.
+   *
+   * DELETE /auth/identities/:id
+   * Headers: { Authorization: "Bearer <token>" }
+   */
+  @Delete('identities/:id')
+  @UseGuards(JwtAuthGuard)
+  unlinkIdentity(@Req() req: AuthRequest, @Param('id') identityId: string) {
+    return this.identitiesService.unlink(identityId, req.user.id);
+  }
+
+  /**
+   * Envía el refresh token en cookie y retorna solo el access token
+   */
+  private sendSession(res: Response, session: AuthSession) {
+    this.setRefreshTokenCookie(
+      res,
+      session.refreshToken,
+      session.refreshTokenExpiresAt,
+    );
+
+    return session.loginResponse;
+  }
+
+  private getRefreshTokenFromCookie(req: Request): string | undefined {
+    const cookies = req.cookies as Record<string, string> | undefined;
+    return cookies?.[REFRESH_TOKEN_COOKIE];
+  }
+
+  private getClientInfo(req: Request): ClientInfo {
+    return {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    };
+  }
+
+  /**
+   * En producción el frontend vive en otro dominio,
+   * por eso la cookie necesita SameSite=None + Secure
+   */
+  private setRefreshTokenCookie(
+    res: Response,
+    refreshToken: string,
+    expiresAt: Date,
+  ) {
+    const isProduction = process.env.NODE_ENV === 'production';
+
+    res.cookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: isProduction ? 'none' : 'lax',
+      path: REFRESH_TOKEN_COOKIE_PATH,
+      expires: expiresAt,
+    });
+  }
+
+  private clearRefreshTokenCookie(res: Response) {
+    const isProduction = process.env.NODE_ENV === 'production';
+
+    res.clearCookie(REFRESH_TOKEN_COOKIE, {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: isProduction ? 'none' : 'lax',
+      path: REFRESH_TOKEN_COOKIE_PATH,
+    });
+  }
 }
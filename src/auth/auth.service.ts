@@ -1,69 +1,633 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  UnauthorizedException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
-import { User } from '@prisma/client';
+import { Prisma, Role, User, UserTokenType } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
 import { LoginResponseDto } from './dto/login-response.dto';
+import { RegisterDto } from './dto/register.dto';
+import { AuthSession, ClientInfo } from './interfaces/auth-session.interface';
+import {
+  AUTHORIZATION_CODE_TTL_SECONDS,
+  BCRYPT_ROUNDS,
+  EMAIL_VERIFICATION_TTL_HOURS,
+  PASSWORD_RESET_TTL_MINUTES,
+} from './constants/auth.constants';
+
+/**
+ * Respuesta cuando el email ya está registrado
+ */
+const EMAIL_TAKEN_MESSAGE =
+  'Ya existe una cuenta con este email. Inicia sesión o recupera tu contraseña';
+
+/**
+ * Hash bcrypt de relleno para comparar cuando el usuario no existe
+ * o no tiene contraseña (iguala el tiempo de respuesta)
+ */
+const DUMMY_PASSWORD_HASH =
+  '$2b$12$C6UzMDM.H6dfI/f/IKcEeO5bL7Yp9G5hP0cXx1lbDg8T7sL0H2e6e';
 
 /**
  * Servicio de autenticación
  *
  * Responsabilidades:
- * - Generar tokens JWT
+ * - Generar tokens JWT (access token de vida corta)
+ * - Crear, rotar y revocar sesiones con refresh token
+ * - Emitir y canjear códigos de un solo uso (callback de Google + PKCE)
  * - Crear respuestas de login con formato estandarizado
- * - Validar usuarios (lo hace GoogleStrategy, pero está centralizado aquí)
+ * - Registro, login, verificación de email y reset de contraseña (local)
+ *
+ * Refresh tokens:
+ * - Formato "<sessionId>.<secreto>", el secreto es aleatorio (48 bytes)
+ * - En DB solo se guarda el hash SHA-256 del token vigente
+ * - Cada uso rota el token; si llega un token viejo de la misma sesión
+ *   se asume robo y se revoca la sesión completa (reuse detection)
  */
 @Injectable()
 export class AuthService {
-  constructor(private jwtService: JwtService) {}
+  constructor(
+    private jwtService: JwtService,
+    private prisma: PrismaService,
+    private mailService: MailService,
+  ) {}
 
   /**
-   * Genera un token JWT para un usuario
+   * Inicia una sesión nueva para un usuario
    *
    * @param user - Usuario autenticado desde la base de datos
-   * @returns LoginResponseDto con token y datos del usuario
+   * @param client - Datos del dispositivo (user agent, IP)
+   * @returns Access token + refresh token de la nueva sesión
+   */
+  async login(user: User, client: ClientInfo = {}): Promise<AuthSession> {
+    const secret = this.generateTokenSecret();
+    const refreshTokenExpiresAt = this.getRefreshTokenExpirationDate();
+
+    const session = await this.prisma.session.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: this.hashToken(secret),
+        userAgent: client.userAgent?.slice(0, 255),
+        ipAddress: client.ipAddress,
+        expiresAt: refreshTokenExpiresAt,
+      },
+    });
+
+    return {
+      loginResponse: this.buildLoginResponse(user, session.id),
+      refreshToken: `${session.id}.${secret}`,
+      refreshTokenExpiresAt,
+    };
+  }
+
+  /**
+   * Emite un código de un solo uso para el callback de Google
+   *
+   * El código se entrega al frontend por la URL en lugar del JWT.
+   * Expira en segundos y solo puede canjearse presentando el
+   * verifier PKCE que corresponde al challenge.
+   *
+   * @param userId - Usuario autenticado por GoogleStrategy
+   * @param codeChallenge - Challenge PKCE recibido al iniciar el login
+   * @returns Código en claro (en DB solo queda el hash)
+   */
+  async createAuthorizationCode(
+    userId: string,
+    codeChallenge: string,
+  ): Promise<string> {
+    const code = this.generateTokenSecret();
+
+    await this.prisma.authorizationCode.create({
+      data: {
+        userId,
+        codeHash: this.hashToken(code),
+        codeChallenge,
+        expiresAt: new Date(Date.now() + AUTHORIZATION_CODE_TTL_SECONDS * 1000),
+      },
+    });
+
+    return code;
+  }
+
+  /**
+   * Canjea un código de un solo uso por access token + refresh token
+   *
+   * El código se marca como usado ANTES de verificar el verifier,
+   * así un código filtrado no permite probar verifiers por fuerza bruta.
+   *
+   * @param code - Código recibido en el callback
+   * @param codeVerifier - Verifier PKCE original del frontend
+   * @param client - Datos del dispositivo
    */
-  login(user: User): LoginResponseDto {
+  async exchangeAuthorizationCode(
+    code: string,
+    codeVerifier: string,
+    client: ClientInfo = {},
+  ): Promise<AuthSession> {
+    const codeHash = this.hashToken(code);
+
+    // Update condicional: solo un request puede consumir el código
+    const consumed = await this.prisma.authorizationCode.updateMany({
+      where: {
+        codeHash,
+        usedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new UnauthorizedException('Código inválido, expirado o ya usado');
+    }
+
+    const authorizationCode = await this.prisma.authorizationCode.findUnique({
+      where: { codeHash },
+      include: { user: true },
+    });
+
+    const expectedChallenge = Buffer.from(
+      authorizationCode?.codeChallenge ?? '',
+    );
+    const actualChallenge = Buffer.from(
+      createHash('sha256').update(codeVerifier).digest('base64url'),
+    );
+
+    if (
+      !authorizationCode ||
+      expectedChallenge.length !== actualChallenge.length ||
+      !timingSafeEqual(expectedChallenge, actualChallenge)
+    ) {
+      throw new UnauthorizedException('code_verifier no coincide');
+    }
+
+    if (!authorizationCode.user.isActive) {
+      throw new UnauthorizedException('Usuario no válido o inactivo');
+    }
+
+    return this.login(authorizationCode.user, client);
+  }
+
+  /**
+   * Crea una cuenta con email y contraseña e inicia sesión
+   *
+   * Si el email ya existe (ej: cuenta creada con Google) NO se le
+   * agrega la contraseña: cualquiera podría registrar un email ajeno.
+   * El dueño puede crearla con "olvidé mi contraseña", que sí prueba
+   * que controla el email.
+   */
+  async register(dto: RegisterDto, client: ClientInfo = {}) {
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: dto.email },
+    });
+
+    if (existingUser) {
+      throw new ConflictException(EMAIL_TAKEN_MESSAGE);
+    }
+
+    const passwordHash = await bcrypt.hash(dto.password, BCRYPT_ROUNDS);
+
+    // Dos registros simultáneos pasan la verificación anterior;
+    // el índice único de email decide cuál gana
+    const user = await this.prisma.user
+      .create({
+        data: {
+          email: dto.email,
+          name: dto.name,
+          passwordHash,
+          role: Role.USER,
+        },
+      })
+      .catch((error: unknown) => {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          throw new ConflictException(EMAIL_TAKEN_MESSAGE);
+        }
+        throw error;
+      });
+
+    await this.sendEmailVerification(user);
+
+    return this.login(user, client);
+  }
+
+  /**
+   * Valida email y contraseña (usado por LocalStrategy)
+   *
+   * Siempre ejecuta un bcrypt.compare, exista o no el usuario,
+   * para no revelar por tiempo de respuesta qué emails están registrados.
+   *
+   * @param email - Email del usuario
+   * @param password - Contraseña del usuario
+   * @returns Usuario si las credenciales son válidas, null si no
+   */
+  async validateUser(email: string, password: string): Promise<User | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+    });
+
+    const isValid = await bcrypt.compare(
+      password,
+      user?.passwordHash ?? DUMMY_PASSWORD_HASH,
+    );
+
+    if (!user || !user.passwordHash || !isValid || !user.isActive) {
+      return null;
+    }
+
+    return user;
+  }
+
+  /**
+   * Confirma el email con el token recibido por correo
+   */
+  async verifyEmail(token: string) {
+    const userToken = await this.consumeUserToken(
+      token,
+      UserTokenType.EMAIL_VERIFICATION,
+    );
+
+    await this.prisma.user.update({
+      where: { id: userToken.userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    return { message: 'Email verificado exitosamente' };
+  }
+
+  /**
+   * Reenvía el enlace de verificación al usuario autenticado
+   */
+  async resendEmailVerification(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new UnauthorizedException('Usuario no válido o inactivo');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Tu email ya está verificado');
+    }
+
+    await this.sendEmailVerification(user);
+
+    return { message: 'Te enviamos un nuevo enlace de verificación' };
+  }
+
+  /**
+   * Envía el enlace para restablecer contraseña
+   *
+   * Responde lo mismo exista o no la cuenta (no revela emails).
+   * También sirve para que una cuenta creada con Google agregue
+   * contraseña de forma segura.
+   */
+  async forgotPassword(email: string) {
+    const user = await this.prisma.user.findUnique({ where: { email } });
+
+    if (user && user.isActive) {
+      const token = await this.createUserToken(
+        user.id,
+        UserTokenType.PASSWORD_RESET,
+        new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+      );
+
+      await this.mailService.sendPasswordReset(
+        user.email,
+        user.name,
+        `${this.getFrontendUrl()}/auth/reset-password?token=${token}`,
+        PASSWORD_RESET_TTL_MINUTES,
+      );
+    }
+
+    return {
+      message:
+        'Si el email está registrado, recibirás un enlace para restablecer tu contraseña',
+    };
+  }
+
+  /**
+   * Establece una nueva contraseña con el token del email
+   *
+   * - Marca el email como verificado (el usuario probó que lo controla)
+   * - Cierra todas las sesiones abiertas
+   */
+  async resetPassword(token: string, password: string) {
+    const userToken = await this.consumeUserToken(
+      token,
+      UserTokenType.PASSWORD_RESET,
+    );
+
+    const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userToken.userId },
+        data: {
+          passwordHash,
+          emailVerifiedAt: userToken.user.emailVerifiedAt ?? new Date(),
+        },
+      }),
+      // Invalidar otros enlaces de reset pendientes
+      this.prisma.userToken.updateMany({
+        where: {
+          userId: userToken.userId,
+          type: UserTokenType.PASSWORD_RESET,
+          usedAt: null,
+        },
+        data: { usedAt: new Date() },
+      }),
+    ]);
+
+    await this.revokeAllSessions(userToken.userId, 'password_reset');
+
+    return { message: 'Contraseña actualizada. Inicia sesión nuevamente' };
+  }
+
+  /**
+   * Rota un refresh token y emite un nuevo access token
+   *
+   * - Token inválido, expirado o de sesión revocada → 401
+   * - Token ya usado (no coincide con el hash vigente) → revoca la sesión
+   *
+   * @param refreshToken - Token recibido en la cookie
+   * @param client - Datos del dispositivo
+   */
+  async refresh(
+    refreshToken: string | undefined,
+    client: ClientInfo = {},
+  ): Promise<AuthSession> {
+    const { sessionId, secret } = this.parseRefreshToken(refreshToken);
+
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { user: true },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      throw new UnauthorizedException('Sesión inválida o expirada');
+    }
+
+    if (!session.user.isActive) {
+      await this.revokeSession(session.id, 'inactive_user');
+      throw new UnauthorizedException('Usuario no válido o inactivo');
+    }
+
+    const presentedHash = this.hashToken(secret);
+    const newSecret = this.generateTokenSecret();
+
+    // Update condicional: solo rota si el hash sigue siendo el vigente.
+    // Si dos requests usan el mismo token, solo uno gana.
+    const rotated = await this.prisma.session.updateMany({
+      where: {
+        id: session.id,
+        refreshTokenHash: presentedHash,
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash: this.hashToken(newSecret),
+        lastUsedAt: new Date(),
+        userAgent: client.userAgent?.slice(0, 255) ?? session.userAgent,
+        ipAddress: client.ipAddress ?? session.ipAddress,
+      },
+    });
+
+    if (rotated.count === 0) {
+      // Token ya rotado antes: alguien está reutilizando un token viejo
+      await this.revokeSession(session.id, 'refresh_token_reuse');
+      throw new UnauthorizedException(
+        'Refresh token reutilizado, la sesión fue cerrada',
+      );
+    }
+
+    return {
+      loginResponse: this.buildLoginResponse(session.user, session.id),
+      refreshToken: `${session.id}.${newSecret}`,
+      refreshTokenExpiresAt: session.expiresAt,
+    };
+  }
+
+  /**
+   * Cierra la sesión asociada a un refresh token
+   * No falla si el token no existe (logout idempotente)
+   */
+  async logout(refreshToken: string | undefined): Promise<void> {
+    const [sessionId, secret] = (refreshToken ?? '').split('.');
+
+    if (!sessionId || !secret) {
+      return;
+    }
+
+    // Solo el dueño del token vigente puede cerrar la sesión
+    await this.prisma.session.updateMany({
+      where: {
+        id: sessionId,
+        refreshTokenHash: this.hashToken(secret),
+        revokedAt: null,
+      },
+      data: { revokedAt: new Date(), revokedReason: 'logout' },
+    });
+  }
+
+  /**
+   * Cierra todas las sesiones activas de un usuario
+   *
+   * @returns Cantidad de sesiones revocadas
+   */
+  async revokeAllSessions(userId: string, reason: string): Promise<number> {
+    const result = await this.prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Revoca una sesión específica (si sigue activa)
+   */
+  private async revokeSession(sessionId: string, reason: string) {
+    await this.prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
+  /**
+   * Genera y envía un enlace de verificación de email
+   */
+  private async sendEmailVerification(user: User) {
+    const token = await this.createUserToken(
+      user.id,
+      UserTokenType.EMAIL_VERIFICATION,
+      new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000),
+    );
+
+    await this.mailService.sendEmailVerification(
+      user.email,
+      user.name,
+      `${this.getFrontendUrl()}/auth/verify-email?token=${token}`,
+    );
+  }
+
+  /**
+   * Crea un token de un solo uso para enviar por email
+   *
+   * @returns Token en claro (en DB solo queda el hash)
+   */
+  private async createUserToken(
+    userId: string,
+    type: UserTokenType,
+    expiresAt: Date,
+  ): Promise<string> {
+    const token = this.generateTokenSecret();
+
+    await this.prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: this.hashToken(token),
+        expiresAt,
+      },
+    });
+
+    return token;
+  }
+
+  /**
+   * Marca un token de email como usado y lo retorna
+   * Falla si no existe, es de otro tipo, expiró o ya se usó
+   */
+  private async consumeUserToken(token: string, type: UserTokenType) {
+    const tokenHash = this.hashToken(token);
+
+    // Update condicional: solo un request puede consumir el token
+    const consumed = await this.prisma.userToken.updateMany({
+      where: {
+        tokenHash,
+        type,
+        usedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new BadRequestException('El enlace es inválido o expiró');
+    }
+
+    return this.prisma.userToken.findUniqueOrThrow({
+      where: { tokenHash },
+      include: { user: true },
+    });
+  }
+
+  private getFrontendUrl(): string {
+    return process.env.FRONTEND_URL || 'http://localhost:3000';
+  }
+
+  /**
+   * Genera el access token y la respuesta de login
+   *
+   * @param user - Usuario autenticado
+   * @param sessionId - Sesión a la que pertenece el token
+   */
+  private buildLoginResponse(user: User, sessionId: string): LoginResponseDto {
     // Payload del JWT (lo que se codifica en el token)
     const payload = {
       sub: user.id, // "subject" - ID del usuario (estándar JWT)
       email: user.email, // Email para referencia
       role: user.role, // Rol para autorización
+      sid: sessionId, // Sesión (permite revocar el access token)
     };
 
     // Generar el JWT
     const accessToken = this.jwtService.sign(payload);
 
-    // Calcular tiempo de expiración en segundos
-    const expiresIn = this.getTokenExpirationInSeconds();
-
     // Retornar respuesta formateada
     return {
       access_token: accessToken,
       token_type: 'Bearer',
-      expires_in: expiresIn,
+      expires_in: this.getTokenExpirationInSeconds(),
       user: {
         id: user.id,
         email: user.email,
         name: user.name,
         avatar: user.avatar,
         role: user.role,
+        emailVerified: user.emailVerifiedAt !== null,
       },
     };
   }
 
   /**
-   * Calcula el tiempo de expiración del token en segundos
+   * Separa un refresh token en sessionId y secreto
+   */
+  private parseRefreshToken(refreshToken: string | undefined): {
+    sessionId: string;
+    secret: string;
+  } {
+    const [sessionId, secret] = (refreshToken ?? '').split('.');
+
+    if (!sessionId || !secret) {
+      throw new UnauthorizedException('Refresh token no proporcionado');
+    }
+
+    return { sessionId, secret };
+  }
+
+  private generateTokenSecret(): string {
+    return randomBytes(48).toString('base64url');
+  }
+
+  /**
+   * SHA-256 es suficiente: el secreto es aleatorio de alta entropía,
+   * no una contraseña elegida por el usuario
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Calcula el tiempo de expiración del access token en segundos
    *
-   * Lee JWT_EXPIRATION del .env (ej: "7d", "24h", "3600s")
-   * y lo convierte a segundos
+   * Lee JWT_EXPIRES_IN del .env (ej: "15m", "24h", "3600s"),
+   * el mismo valor que usa JwtModule para firmar
    *
    * @returns Tiempo de expiración en segundos
    */
   private getTokenExpirationInSeconds(): number {
-    const expiration = process.env.JWT_EXPIRATION || '7d';
+    return this.parseDuration(process.env.JWT_EXPIRES_IN || '15m', 15 * 60);
+  }
+
+  /**
+   * Fecha de expiración de un refresh token nuevo
+   * Lee REFRESH_TOKEN_EXPIRES_IN del .env (default: 7 días)
+   */
+  private getRefreshTokenExpirationDate(): Date {
+    const seconds = this.parseDuration(
+      process.env.REFRESH_TOKEN_EXPIRES_IN || '7d',
+      7 * 24 * 60 * 60,
+    );
+
+    return new Date(Date.now() + seconds * 1000);
+  }
 
+  /**
+   * Convierte una duración tipo "7d", "24h", "15m", "3600s" a segundos
+   *
+   * @param duration - Duración con unidad al final
+   * @param fallback - Valor si la unidad no es reconocida
+   */
+  private parseDuration(duration: string, fallback: number): number {
     // Parsear el string de expiración
-    const timeValue = parseInt(expiration.slice(0, -1), 10);
-    const timeUnit = expiration.slice(-1);
+    const timeValue = parseInt(duration.slice(0, -1), 10);
+    const timeUnit = duration.slice(-1);
 
     // Convertir a segundos según la unidad
     switch (timeUnit) {
@@ -76,24 +640,7 @@ export class AuthService {
       case 's': // segundos
         return timeValue;
       default:
-        return 7 * 24 * 60 * 60; // Default: 7 días
+        return fallback;
     }
   }
-
-  /**
-   * Valida las credenciales de un usuario (placeholder)
-   *
-   * En nuestro caso, GoogleStrategy hace esta validación
-   * Este método podría usarse para login tradicional (email/password)
-   * que agregaríamos en el futuro
-   *
-   * @param email - Email del usuario
-   * @param password - Contraseña del usuario
-   * @returns Usuario si las credenciales son válidas, null si no
-   */
-  validateUser(email: string, password: string): Promise<User | null> {
-    // TODO: Implementar si agregas login con email/password
-    // Por ahora solo usamos Google OAuth
-    return null;
-  }
 }
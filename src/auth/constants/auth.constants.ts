@@ -0,0 +1,49 @@
+/**
+ * Nombre de la cookie httpOnly que guarda el refresh token
+ */
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+/**
+ * Path de la cookie: solo se envía a las rutas de /api/auth
+ */
+export const REFRESH_TOKEN_COOKIE_PATH = '/api/auth';
+
+/**
+ * Vida útil del código de un solo uso que devuelve el callback de Google
+ */
+export const AUTHORIZATION_CODE_TTL_SECONDS = 60;
+
+/**
+ * Formato del code_challenge PKCE (S256): base64url de 32 bytes
+ */
+export const PKCE_CODE_CHALLENGE_REGEX = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Costo de bcrypt para contraseñas
+ */
+export const BCRYPT_ROUNDS = 12;
+
+/**
+ * Vigencia del enlace de verificación de email
+ */
+export const EMAIL_VERIFICATION_TTL_HOURS = 24;
+
+/**
+ * Vigencia del enlace para restablecer contraseña
+ */
+export const PASSWORD_RESET_TTL_MINUTES = 30;
+
+/**
+ * Contraseña: 8 a 72 caracteres (límite de bcrypt), al menos una letra y un número
+ */
+export const PASSWORD_REGEX = /^(?=.*[A-Za-z])(?=.*\d).{8,72}$/;
+
+/**
+ * Vigencia del nonce para vincular un proveedor a la cuenta actual
+ */
+export const LINK_TOKEN_TTL_SECONDS = 5 * 60;
+
+/**
+ * Formato del nonce de vinculación: base64url de 32 bytes
+ */
+export const LINK_TOKEN_REGEX = /^[A-Za-z0-9_-]{43}$/;
@@ -0,0 +1,19 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Clave de metadata para marcar rutas públicas
+ */
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * Decorador para marcar una ruta como pública
+ *
+ * JwtAuthGuard deja pasar las rutas marcadas sin exigir token,
+ * aunque el guard esté aplicado a nivel de controller.
+ *
+ * @example
+ * @Get()
+ * @Public()
+ * findAll() {}
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
@@ -0,0 +1,21 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '@prisma/client';
+
+/**
+ * Clave de metadata donde se guardan los roles permitidos
+ */
+export const ROLES_KEY = 'roles';
+
+/**
+ * Decorador para restringir una ruta a uno o más roles
+ *
+ * Debe usarse junto a JwtAuthGuard y RolesGuard, ya que
+ * RolesGuard lee el rol desde req.user.
+ *
+ * @example
+ * @Post()
+ * @UseGuards(JwtAuthGuard, RolesGuard)
+ * @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+ * create(@Body() dto: CreateProductDto) {}
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,25 @@
+import { IsString, IsNotEmpty, Matches } from 'class-validator';
+
+/**
+ * DTO para canjear el código de un solo uso del callback de Google
+ */
+export class ExchangeCodeDto {
+  /**
+   * Código recibido en /auth/callback?code=...
+   * @example "Qm9yZWFsaXMgZXN0IHVuIGNvZGlnbyBkZSBwcnVlYmE"
+   */
+  @IsString({ message: 'code debe ser un texto' })
+  @IsNotEmpty({ message: 'code es obligatorio' })
+  code: string;
+
+  /**
+   * Verifier PKCE generado por el frontend antes de ir a Google
+   * (43 a 128 caracteres, RFC 7636)
+   * @example "dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk"
+   */
+  @IsString({ message: 'code_verifier debe ser un texto' })
+  @Matches(/^[A-Za-z0-9\-._~]{43,128}$/, {
+    message: 'code_verifier no tiene un formato válido',
+  })
+  code_verifier: string;
+}
@@ -0,0 +1,18 @@
+import { IsEmail, IsNotEmpty } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+/**
+ * DTO para solicitar el enlace de restablecer contraseña
+ */
+export class ForgotPasswordDto {
+  /**
+   * Email de la cuenta
+   * @example "cliente@gmail.com"
+   */
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().toLowerCase() : value,
+  )
+  @IsEmail({}, { message: 'email debe ser un email válido' })
+  @IsNotEmpty({ message: 'email es obligatorio' })
+  email: string;
+}
@@ -23,5 +23,6 @@ export class LoginResponseDto {
     name: string | null;
     avatar: string | null;
     role: string;
+    emailVerified: boolean;
   };
 }
@@ -0,0 +1,46 @@
+import {
+  IsEmail,
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { PASSWORD_REGEX } from '../constants/auth.constants';
+
+/**
+ * DTO para crear una cuenta con email y contraseña
+ */
+export class RegisterDto {
+  /**
+   * Email del usuario (se guarda en minúsculas)
+   * @example "cliente@gmail.com"
+   */
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().toLowerCase() : value,
+  )
+  @IsEmail({}, { message: 'email debe ser un email válido' })
+  @IsNotEmpty({ message: 'email es obligatorio' })
+  email: string;
+
+  /**
+   * Contraseña (8 a 72 caracteres, al menos una letra y un número)
+   * @example "Carajo2025"
+   */
+  @IsString({ message: 'password debe ser un texto' })
+  @Matches(PASSWORD_REGEX, {
+    message:
+      'password debe tener entre 8 y 72 caracteres, con al menos una letra y un número',
+  })
+  password: string;
+
+  /**
+   * Nombre del usuario (opcional)
+   * @example "Juan Pérez"
+   */
+  @IsString({ message: 'name debe ser un texto' })
+  @IsOptional()
+  @MaxLength(100, { message: 'name no puede exceder 100 caracteres' })
+  name?: string;
+}
@@ -0,0 +1,19 @@
+import { IsString, Matches } from 'class-validator';
+import { TokenDto } from './token.dto';
+import { PASSWORD_REGEX } from '../constants/auth.constants';
+
+/**
+ * DTO para establecer una nueva contraseña con el token del email
+ */
+export class ResetPasswordDto extends TokenDto {
+  /**
+   * Nueva contraseña (8 a 72 caracteres, al menos una letra y un número)
+   * @example "NuevaClave2025"
+   */
+  @IsString({ message: 'password debe ser un texto' })
+  @Matches(PASSWORD_REGEX, {
+    message:
+      'password debe tener entre 8 y 72 caracteres, con al menos una letra y un número',
+  })
+  password: string;
+}
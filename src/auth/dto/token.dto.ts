@@ -0,0 +1,14 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+/**
+ * DTO con un token recibido por email (ej: verificación de email)
+ */
+export class TokenDto {
+  /**
+   * Token del enlace enviado por email
+   * @example "h3mQ0b1c6l0x9p2YyQm9yZWFsaXMgZXN0IHVuIHRva2Vu"
+   */
+  @IsString({ message: 'token debe ser un texto' })
+  @IsNotEmpty({ message: 'token es obligatorio' })
+  token: string;
+}
@@ -1,5 +1,15 @@
-import { Injectable } from '@nestjs/common';
-import { AuthGuard } from '@nestjs/passport';
+import {
+  Injectable,
+  ExecutionContext,
+  BadRequestException,
+} from '@nestjs/common';
+import { AuthGuard, IAuthModuleOptions } from '@nestjs/passport';
+import { Request } from 'express';
+import {
+  LINK_TOKEN_REGEX,
+  PKCE_CODE_CHALLENGE_REGEX,
+} from '../constants/auth.constants';
+import { buildOAuthState } from '../utils/oauth-state.util';
 
 /**
  * Guard para iniciar el flujo de autenticación con Google OAuth
@@ -11,7 +21,47 @@ import { AuthGuard } from '@nestjs/passport';
  *   // Este método nunca se ejecuta, el guard redirige a Google
  * }
  *
+ * Al iniciar el login el frontend debe enviar ?code_challenge=...
+ * El challenge viaja a Google como `state` y vuelve en el callback,
+ * donde queda ligado al código de un solo uso.
+ * Para vincular Google a una cuenta existente, además ?link_token=...
+ * (nonce de un solo uso de POST /auth/identities/link-token)
+ *
  * Este guard usa la estrategia 'google' definida en google.strategy.ts
  */
 @Injectable()
-export class GoogleAuthGuard extends AuthGuard('google') {}
+export class GoogleAuthGuard extends AuthGuard('google') {
+  getAuthenticateOptions(
+    context: ExecutionContext,
+  ): IAuthModuleOptions | undefined {
+    const request = context.switchToHttp().getRequest<Request>();
+
+    // En el callback Google ya trae code/state, no hay nada que agregar
+    if (request.query.code || request.query.error) {
+      return undefined;
+    }
+
+    const codeChallenge = request.query.code_challenge;
+
+    if (
+      typeof codeChallenge !== 'string' ||
+      !PKCE_CODE_CHALLENGE_REGEX.test(codeChallenge)
+    ) {
+      throw new BadRequestException(
+        'code_challenge es obligatorio (base64url de SHA-256 del verifier)',
+      );
+    }
+
+    const linkToken = request.query.link_token;
+
+    if (linkToken === undefined) {
+      return { state: buildOAuthState({ codeChallenge }) };
+    }
+
+    if (typeof linkToken !== 'string' || !LINK_TOKEN_REGEX.test(linkToken)) {
+      throw new BadRequestException('link_token inválido');
+    }
+
+    return { state: buildOAuthState({ codeChallenge, linkToken }) };
+  }
+}
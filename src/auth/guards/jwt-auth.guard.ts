@@ -1,6 +1,8 @@
 import { Injectable, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
 import { Observable } from 'rxjs';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
 
 /**
  * Guard para proteger rutas que requieren autenticación JWT
@@ -12,10 +14,16 @@ import { Observable } from 'rxjs';
  *   return req.user; // Usuario autenticado disponible
  * }
  *
+ * Las rutas marcadas con @Public() no exigen token.
+ *
  * Este guard usa la estrategia 'jwt' definida en jwt.strategy.ts
  */
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
+  constructor(private reflector: Reflector) {
+    super();
+  }
+
   /**
    * Método que se ejecuta antes de procesar el request
    *
@@ -25,6 +33,16 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
   canActivate(
     context: ExecutionContext,
   ): boolean | Promise<boolean> | Observable<boolean> {
+    // Rutas públicas no requieren token
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (isPublic) {
+      return true;
+    }
+
     // Llamar al método canActivate del AuthGuard base
     // Esto ejecuta la JwtStrategy automáticamente
     return super.canActivate(context);
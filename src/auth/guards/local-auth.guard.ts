@@ -0,0 +1,17 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Guard para login con email y contraseña
+ *
+ * Uso en controllers:
+ * @UseGuards(LocalAuthGuard)
+ * @Post('login')
+ * login(@Req() req) {
+ *   return req.user; // Usuario con credenciales válidas
+ * }
+ *
+ * Este guard usa la estrategia 'local' definida en local.strategy.ts
+ */
+@Injectable()
+export class LocalAuthGuard extends AuthGuard('local') {}
@@ -0,0 +1,60 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { AuthRequest } from '../../common/interfaces/auth-request.interface';
+
+/**
+ * Guard para autorizar rutas según el rol del usuario
+ *
+ * Uso en controllers:
+ * @UseGuards(JwtAuthGuard, RolesGuard)
+ * @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+ * @Patch(':id')
+ * update() {}
+ *
+ * Debe ir DESPUÉS de JwtAuthGuard, porque necesita req.user.
+ * Si la ruta no declara @Roles() o es @Public(), deja pasar.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (isPublic) {
+      return true;
+    }
+
+    // Roles del handler tienen prioridad sobre los del controller
+    const requiredRoles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredRoles || requiredRoles.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthRequest>();
+    const user = request.user;
+
+    if (!user || !requiredRoles.includes(user.role)) {
+      throw new ForbiddenException(
+        'No tienes permiso para realizar esta acción',
+      );
+    }
+
+    return true;
+  }
+}
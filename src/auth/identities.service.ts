@@ -0,0 +1,314 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AuthProvider, Role, User } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuthService } from './auth.service';
+import { OAuthProfile } from './interfaces/oauth-profile.interface';
+import { LINK_TOKEN_TTL_SECONDS } from './constants/auth.constants';
+
+/**
+ * Servicio de identidades externas (Google, etc.)
+ *
+ * - Un User puede tener varias identidades vinculadas
+ * - Métodos de login = identidades + contraseña local
+ * - Nunca se permite quitar el último método de login
+ */
+@Injectable()
+export class IdentitiesService {
+  constructor(
+    private prisma: PrismaService,
+    private authService: AuthService,
+  ) {}
+
+  /**
+   * Resuelve el usuario de un login con proveedor externo
+   *
+   * Orden de búsqueda:
+   * 1. Vinculación explícita (linkUserId, usuario ya autenticado)
+   * 2. Identidad existente (provider + providerUserId)
+   * 3. Cuenta con el mismo email → se vincula si el proveedor verificó el email
+   * 4. Usuario nuevo
+   */
+  async resolveOAuthUser(
+    provider: AuthProvider,
+    profile: OAuthProfile,
+    linkUserId?: string,
+  ): Promise<User> {
+    const identity = await this.prisma.identity.findUnique({
+      where: {
+        provider_providerUserId: {
+          provider,
+          providerUserId: profile.providerUserId,
+        },
+      },
+      include: { user: true },
+    });
+
+    if (linkUserId) {
+      return this.linkToUser(provider, profile, linkUserId, identity?.userId);
+    }
+
+    if (identity) {
+      await this.prisma.identity.update({
+        where: { id: identity.id },
+        data: { lastUsedAt: new Date(), email: profile.email },
+      });
+
+      // Actualizar su info (por si cambió nombre o foto en el proveedor)
+      return this.prisma.user.update({
+        where: { id: identity.userId },
+        data: {
+          name: profile.name || identity.user.name,
+          avatar: profile.avatar || identity.user.avatar,
+        },
+      });
+    }
+
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: profile.email },
+    });
+
+    if (existingUser) {
+      return this.linkByEmail(provider, profile, existingUser);
+    }
+
+    // Si no existe, crearlo junto con su identidad
+    return this.prisma.user.create({
+      data: {
+        email: profile.email,
+        name: profile.name,
+        avatar: profile.avatar,
+        emailVerifiedAt: profile.emailVerified ? new Date() : null,
+        role: Role.USER, // Rol por defecto usando el enum
+        identities: {
+          create: {
+            provider,
+            providerUserId: profile.providerUserId,
+            email: profile.email,
+            lastUsedAt: new Date(),
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Lista los métodos de login del usuario
+   */
+  async findAllByUser(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        passwordHash: true,
+        identities: {
+          select: {
+            id: true,
+            provider: true,
+            email: true,
+            lastUsedAt: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+
+    return {
+      hasPassword: user.passwordHash !== null,
+      identities: user.identities,
+    };
+  }
+
+  /**
+   * Genera un nonce de un solo uso para vincular un proveedor
+   *
+   * El frontend lo envía en GET /auth/google?link_token=... y viaja a
+   * Google dentro del state. No es una credencial: en DB solo queda su
+   * hash, ligado al usuario y a la sesión que lo pidió, y se consume
+   * una sola vez en el callback.
+   */
+  async createLinkToken(userId: string, sessionId: string) {
+    const nonce = randomBytes(32).toString('base64url');
+
+    await this.prisma.identityLinkNonce.create({
+      data: {
+        userId,
+        sessionId,
+        nonceHash: this.hashNonce(nonce),
+        expiresAt: new Date(Date.now() + LINK_TOKEN_TTL_SECONDS * 1000),
+      },
+    });
+
+    return { link_token: nonce, expiresIn: LINK_TOKEN_TTL_SECONDS };
+  }
+
+  /**
+   * Consume un nonce de vinculación
+   * Falla si no existe, expiró, ya se usó o la sesión que lo pidió se cerró
+   *
+   * @returns ID del usuario que pidió vincular
+   */
+  async consumeLinkToken(nonce: string): Promise<string> {
+    const nonceHash = this.hashNonce(nonce);
+
+    // Update condicional: solo un callback puede consumir el nonce
+    const { count } = await this.prisma.identityLinkNonce.updateMany({
+      where: { nonceHash, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+
+    const linkNonce =
+      count === 1
+        ? await this.prisma.identityLinkNonce.findUnique({
+            where: { nonceHash },
+            include: { session: true },
+          })
+        : null;
+
+    if (
+      !linkNonce ||
+      linkNonce.session.revokedAt ||
+      linkNonce.session.expiresAt <= new Date()
+    ) {
+      throw new UnauthorizedException(
+        'El enlace para vincular la cuenta es inválido o expiró',
+      );
+    }
+
+    return linkNonce.userId;
+  }
+
+  /**
+   * Desvincula una identidad del usuario
+   * Falla si es su último método de login
+   */
+  async unlink(identityId: string, userId: string) {
+    return this.prisma.$transaction(async (tx) => {
+      // Bloquea al usuario: dos desvinculaciones simultáneas se evalúan
+      // una tras otra y no pueden dejarlo sin métodos de login
+      await tx.$queryRaw`SELECT "id" FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+
+      const user = await tx.user.findUnique({
+        where: { id: userId },
+        select: {
+          passwordHash: true,
+          identities: { select: { id: true } },
+        },
+      });
+
+      if (!user || !user.identities.some((i) => i.id === identityId)) {
+        throw new NotFoundException('Identidad no encontrada');
+      }
+
+      const loginMethods =
+        user.identities.length + (user.passwordHash !== null ? 1 : 0);
+
+      if (loginMethods <= 1) {
+        throw new BadRequestException(
+          'No puedes quitar tu único método de inicio de sesión. Crea una contraseña o vincula otra cuenta primero',
+        );
+      }
+
+      await tx.identity.delete({ where: { id: identityId } });
+
+      return { message: 'Cuenta desvinculada exitosamente' };
+    });
+  }
+
+  /**
+   * Vincula la identidad a un usuario ya autenticado
+   */
+  private async linkToUser(
+    provider: AuthProvider,
+    profile: OAuthProfile,
+    userId: string,
+    currentOwnerId?: string,
+  ): Promise<User> {
+    if (currentOwnerId && currentOwnerId !== userId) {
+      throw new ConflictException(
+        'Esta cuenta ya está vinculada a otro usuario',
+      );
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Usuario no válido o inactivo');
+    }
+
+    if (!currentOwnerId) {
+      await this.prisma.identity.create({
+        data: {
+          userId,
+          provider,
+          providerUserId: profile.providerUserId,
+          email: profile.email,
+          lastUsedAt: new Date(),
+        },
+      });
+    }
+
+    return user;
+  }
+
+  /**
+   * Vincula la identidad a una cuenta existente con el mismo email
+   *
+   * Solo si el proveedor verificó el email. Si la cuenta local nunca
+   * verificó su email, la contraseña pudo haberla puesto otra persona
+   * (pre-registro con email ajeno): se descarta y se cierran sus sesiones.
+   */
+  private async linkByEmail(
+    provider: AuthProvider,
+    profile: OAuthProfile,
+    existingUser: User,
+  ): Promise<User> {
+    if (!profile.emailVerified) {
+      throw new UnauthorizedException(
+        'Tu email no está verificado por el proveedor, no podemos vincular la cuenta',
+      );
+    }
+
+    const untrustedPassword =
+      !existingUser.emailVerifiedAt && existingUser.passwordHash !== null;
+
+    if (untrustedPassword) {
+      await this.authService.revokeAllSessions(
+        existingUser.id,
+        'oauth_link_unverified_account',
+      );
+    }
+
+    return this.prisma.user.update({
+      where: { id: existingUser.id },
+      data: {
+        name: existingUser.name || profile.name,
+        avatar: existingUser.avatar || profile.avatar,
+        emailVerifiedAt: existingUser.emailVerifiedAt ?? new Date(),
+        ...(untrustedPassword && { passwordHash: null }),
+        identities: {
+          create: {
+            provider,
+            providerUserId: profile.providerUserId,
+            email: profile.email,
+            lastUsedAt: new Date(),
+          },
+        },
+      },
+    });
+  }
+
+  private hashNonce(nonce: string): string {
+    return createHash('sha256').update(nonce).digest('hex');
+  }
+}
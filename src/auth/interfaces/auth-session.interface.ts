@@ -0,0 +1,21 @@
+import { LoginResponseDto } from '../dto/login-response.dto';
+
+/**
+ * Datos del dispositivo que inicia o renueva la sesión
+ */
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Resultado de un login o refresh
+ *
+ * El refresh token viaja aparte porque el controller lo envía
+ * en una cookie httpOnly, nunca en el body de la respuesta.
+ */
+export interface AuthSession {
+  loginResponse: LoginResponseDto;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
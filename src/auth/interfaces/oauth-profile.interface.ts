@@ -0,0 +1,10 @@
+/**
+ * Datos normalizados del perfil de un proveedor externo (Google)
+ */
+export interface OAuthProfile {
+  providerUserId: string; // ID del usuario en el proveedor
+  email: string; // Email principal, en minúsculas
+  emailVerified: boolean; // El proveedor confirmó el email
+  name: string | null;
+  avatar: string | null;
+}
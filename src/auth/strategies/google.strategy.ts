@@ -1,8 +1,10 @@
 import { Injectable } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { Strategy, VerifyCallback, Profile } from 'passport-google-oauth20';
-import { PrismaService } from '../../prisma/prisma.service';
-import { Role } from '@prisma/client';
+import { Request } from 'express';
+import { AuthProvider } from '@prisma/client';
+import { IdentitiesService } from '../identities.service';
+import { parseOAuthState } from '../utils/oauth-state.util';
 
 /**
  * Interface para los datos del perfil de Google
@@ -27,16 +29,17 @@ interface GoogleProfile extends Profile {
  * Estrategia de Google OAuth 2.0
  *
  * Flujo:
- * 1. Usuario clickea "Login con Google"
+ * 1. Usuario clickea "Login con Google" (o "Vincular Google")
  * 2. Se redirige a Google para autorizar
  * 3. Google redirige a /auth/google/callback con un code
  * 4. Esta estrategia intercambia el code por datos del usuario
- * 5. Método validate() busca/crea el usuario en DB
- * 6. Retorna el usuario para generar JWT
+ * 5. Método validate() delega en IdentitiesService, que busca la
+ *    identidad, vincula por email o crea el usuario
+ * 6. Retorna el usuario para generar el código de un solo uso
  */
 @Injectable()
 export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
-  constructor(private prisma: PrismaService) {
+  constructor(private identitiesService: IdentitiesService) {
     super({
       // Client ID de Google Cloud Console
       clientID: process.env.GOOGLE_CLIENT_ID,
@@ -49,18 +52,23 @@ export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
 
       // Scopes: qué permisos pedimos a Google
       scope: ['email', 'profile'],
+
+      // Necesitamos el request para leer el state (link token)
+      passReqToCallback: true,
     });
   }
 
   /**
    * Este método se ejecuta cuando Google devuelve los datos del usuario
    *
+   * @param req - Request del callback (trae el state)
    * @param accessToken - Token de acceso de Google (no lo usamos)
    * @param refreshToken - Token de refresh de Google (no lo usamos)
    * @param profile - Perfil del usuario de Google
    * @param done - Callback de Passport para indicar éxito/error
    */
   async validate(
+    req: Request,
     accessToken: string,
     refreshToken: string,
     profile: GoogleProfile,
@@ -74,43 +82,33 @@ export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
       return done(new Error('No se pudo obtener el email de Google'), null);
     }
 
-    const email = emails[0].value;
-    const avatar = photos && photos.length > 0 ? photos[0].value : null;
-
-    // Buscar si el usuario ya existe en nuestra DB
-    let user = await this.prisma.user.findUnique({
-      where: { googleId: id },
-    });
+    try {
+      // Si viene un nonce de vinculación, el usuario está vinculando
+      // Google a su cuenta
+      const state = parseOAuthState(req.query.state);
+      const linkUserId = state?.linkToken
+        ? await this.identitiesService.consumeLinkToken(state.linkToken)
+        : undefined;
 
-    // Si no existe, crearlo
-    if (!user) {
-      user = await this.prisma.user.create({
-        data: {
-          email,
-          googleId: id,
+      const user = await this.identitiesService.resolveOAuthUser(
+        AuthProvider.GOOGLE,
+        {
+          providerUserId: id,
+          email: emails[0].value.toLowerCase(),
+          emailVerified: emails[0].verified,
           name:
             name?.givenName && name?.familyName
               ? `${name.givenName} ${name.familyName}`
               : profile.displayName || null,
-          avatar,
-          role: Role.USER, // Rol por defecto usando el enum
+          avatar: photos && photos.length > 0 ? photos[0].value : null,
         },
-      });
-    } else {
-      // Si existe, actualizar su info (por si cambió nombre o foto en Google)
-      user = await this.prisma.user.update({
-        where: { id: user.id },
-        data: {
-          name:
-            name?.givenName && name?.familyName
-              ? `${name.givenName} ${name.familyName}`
-              : profile.displayName || user.name,
-          avatar: avatar || user.avatar,
-        },
-      });
-    }
+        linkUserId,
+      );
 
-    // Retornar el usuario (Passport lo adjunta a req.user)
-    done(null, user);
+      // Retornar el usuario (Passport lo adjunta a req.user)
+      done(null, user);
+    } catch (error) {
+      done(error as Error, null);
+    }
   }
 }
@@ -11,6 +11,7 @@ interface JwtPayload {
   sub: string; // User ID
   email: string; // Email del usuario
   role: Role; // Rol del usuario (enum de Prisma)
+  sid: string; // ID de la sesión (Session)
   iat?: number; // Issued at (timestamp)
   exp?: number; // Expiration (timestamp)
 }
@@ -22,8 +23,9 @@ interface JwtPayload {
  * 1. Extrae el token del header Authorization
  * 2. Valida la firma con JWT_SECRET
  * 3. Decodifica el payload
- * 4. Busca el usuario en DB
- * 5. Adjunta el usuario a req.user
+ * 4. Verifica que la sesión no esté revocada ni expirada
+ * 5. Busca el usuario en DB
+ * 6. Adjunta el usuario a req.user
  */
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
@@ -47,6 +49,21 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
    * @returns Usuario completo desde la DB (se adjunta a req.user)
    */
   async validate(payload: JwtPayload) {
+    // La sesión debe seguir activa (logout o reuse detection la revocan)
+    const session = await this.prisma.session.findUnique({
+      where: { id: payload.sid ?? '' },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+
+    if (
+      !session ||
+      session.userId !== payload.sub ||
+      session.revokedAt ||
+      session.expiresAt < new Date()
+    ) {
+      throw new UnauthorizedException('Sesión inválida o revocada');
+    }
+
     // Buscar usuario en DB por el ID que viene en el token
     const user = await this.prisma.user.findUnique({
       where: { id: payload.sub },
@@ -67,6 +84,6 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
     }
 
     // Este objeto se adjunta a req.user
-    return user;
+    return { ...user, sessionId: payload.sid };
   }
 }
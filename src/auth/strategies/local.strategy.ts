@@ -0,0 +1,41 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-local';
+import { User } from '@prisma/client';
+import { AuthService } from '../auth.service';
+
+/**
+ * Estrategia de login con email y contraseña
+ *
+ * Flujo:
+ * 1. Usuario envía { email, password } a POST /auth/login
+ * 2. Esta estrategia delega en AuthService.validateUser()
+ * 3. Si las credenciales son válidas, adjunta el usuario a req.user
+ * 4. El controller crea la sesión y devuelve los tokens
+ */
+@Injectable()
+export class LocalStrategy extends PassportStrategy(Strategy, 'local') {
+  constructor(private authService: AuthService) {
+    super({
+      // Usamos email en lugar del "username" por defecto
+      usernameField: 'email',
+      passwordField: 'password',
+    });
+  }
+
+  /**
+   * @param email - Email enviado en el body
+   * @param password - Contraseña enviada en el body
+   * @returns Usuario autenticado (Passport lo adjunta a req.user)
+   */
+  async validate(email: string, password: string): Promise<User> {
+    const user = await this.authService.validateUser(email, password);
+
+    // Mismo mensaje para email inexistente y contraseña incorrecta
+    if (!user) {
+      throw new UnauthorizedException('Email o contraseña incorrectos');
+    }
+
+    return user;
+  }
+}
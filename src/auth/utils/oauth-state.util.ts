@@ -0,0 +1,35 @@
+/**
+ * Helpers para el parámetro `state` que viaja a Google y vuelve en el callback
+ *
+ * Formato: "<code_challenge>" o "<code_challenge>.<link_token>"
+ * Ambos son base64url (sin puntos), así que el punto separa las partes.
+ * link_token es un nonce de un solo uso (nunca un JWT ni otra credencial):
+ * el state queda en los logs de Google y del navegador.
+ */
+export interface OAuthState {
+  codeChallenge: string;
+  linkToken?: string;
+}
+
+export function buildOAuthState(state: OAuthState): string {
+  return state.linkToken
+    ? `${state.codeChallenge}.${state.linkToken}`
+    : state.codeChallenge;
+}
+
+export function parseOAuthState(state: unknown): OAuthState | null {
+  if (typeof state !== 'string' || state.length === 0) {
+    return null;
+  }
+
+  const separator = state.indexOf('.');
+
+  if (separator === -1) {
+    return { codeChallenge: state };
+  }
+
+  return {
+    codeChallenge: state.slice(0, separator),
+    linkToken: state.slice(separator + 1),
+  };
+}
@@ -8,10 +8,12 @@ import {
   Param,
   UseGuards,
   Request,
+  Query,
 } from '@nestjs/common';
 import { CartService } from './cart.service';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { UpdateCartItemDto } from './dto/update-cart-item.dto';
+import { CartPreviewQueryDto } from './dto/cart-preview-query.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { AuthRequest } from '../common/interfaces/auth-request.interface';
 
@@ -25,12 +27,16 @@ export class CartController {
   constructor(private readonly cartService: CartService) {}
 
   /**
-   * GET /cart
-   * Obtener el carrito del usuario autenticado con totales calculados
+   * GET /cart?paymentMethod=ZELLE
+   * Obtener el carrito del usuario autenticado con totales e impuestos
+   * Con paymentMethod (y paymentCurrency en efectivo) incluye el IGTF
    */
   @Get()
-  async getCart(@Request() req: AuthRequest) {
-    return this.cartService.getCartWithTotals(req.user.id);
+  async getCart(
+    @Request() req: AuthRequest,
+    @Query() query: CartPreviewQueryDto,
+  ) {
+    return this.cartService.getCartWithTotals(req.user.id, query);
   }
 
   /**
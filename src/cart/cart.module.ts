@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { CartService } from './cart.service';
 import { CartController } from './cart.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
+import { TaxesModule } from '../taxes/taxes.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, ExchangeRatesModule, TaxesModule],
   controllers: [CartController],
   providers: [CartService],
   exports: [CartService], // Exportar para OrdersModule
@@ -6,6 +6,14 @@ import {
 import { PrismaService } from '../prisma/prisma.service';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { UpdateCartItemDto } from './dto/update-cart-item.dto';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { toVes } from '../exchange-rates/utils/currency.util';
+import { TaxesService } from '../taxes/taxes.service';
+import {
+  calculateTaxes,
+  resolvePaymentCurrency,
+} from '../taxes/utils/tax-calculator.util';
+import { CartPreviewQueryDto } from './dto/cart-preview-query.dto';
 
 /**
  * Servicio para gestionar el carrito de compras
@@ -15,7 +23,11 @@ import { UpdateCartItemDto } from './dto/update-cart-item.dto';
  */
 @Injectable()
 export class CartService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private exchangeRatesService: ExchangeRatesService,
+    private taxesService: TaxesService,
+  ) {}
 
   /**
    * Obtener o crear el carrito del usuario
@@ -35,6 +47,7 @@ export class CartService {
                     id: true,
                     name: true,
                     slug: true,
+                    category: { select: { taxExempt: true } },
                   },
                 },
               },
@@ -71,6 +84,7 @@ export class CartService {
                       id: true,
                       name: true,
                       slug: true,
+                      category: { select: { taxExempt: true } },
                     },
                   },
                 },
@@ -95,6 +109,7 @@ export class CartService {
                       id: true,
                       name: true,
                       slug: true,
+                      category: { select: { taxExempt: true } },
                     },
                   },
                 },
@@ -195,23 +210,44 @@ export class CartService {
   /**
    * Obtener carrito del usuario con cálculo de totales
    * Limpia items expirados automáticamente
+   * - IVA con las alícuotas vigentes (categorías exentas al 0%)
+   * - IGTF solo si se indica un método de pago en divisas (preview)
    */
-  async getCartWithTotals(userId: string) {
-    const cart = await this.getOrCreateCart(userId);
-
-    // Calcular totales
-    let subtotal = 0;
-    let totalItems = 0;
-
-    cart.items.forEach((item) => {
-      const itemSubtotal = Number(item.variant.price) * item.quantity;
-      subtotal += itemSubtotal;
-      totalItems += item.quantity;
-    });
-
+  async getCartWithTotals(userId: string, preview: CartPreviewQueryDto = {}) {
+    const [cart, rate, taxRates] = await Promise.all([
+      this.getOrCreateCart(userId),
+      this.exchangeRatesService.findCurrent(),
+      this.taxesService.getRates(),
+    ]);
+
+    const totalItems = cart.items.reduce((acc, item) => acc + item.quantity, 0);
+
+    const taxes = calculateTaxes(
+      cart.items.map((item) => ({
+        price: item.variant.price,
+        quantity: item.quantity,
+        taxExempt: item.variant.product.category.taxExempt,
+      })),
+      taxRates,
+      preview.paymentMethod
+        ? resolvePaymentCurrency(preview.paymentMethod, preview.paymentCurrency)
+        : undefined,
+    );
+
+    // Montos en USD; en Bs con la tasa vigente (referencial hasta comprar)
     return {
       ...cart,
-      subtotal,
+      subtotal: taxes.subtotal,
+      taxes: {
+        ivaRate: taxes.ivaRate,
+        iva: taxes.iva,
+        exemptBase: taxes.exemptBase,
+        igtfRate: taxes.igtfRate,
+        igtf: taxes.igtf,
+      },
+      total: taxes.total,
+      totalVes: rate ? toVes(taxes.total, rate.rate) : null,
+      exchangeRate: rate?.rate ?? null,
       totalItems,
     };
   }
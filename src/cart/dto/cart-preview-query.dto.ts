@@ -0,0 +1,24 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { Currency, PaymentMethod } from '@prisma/client';
+
+/**
+ * DTO para previsualizar los totales del carrito según el método de pago
+ * Usado en GET /cart con query params
+ */
+export class CartPreviewQueryDto {
+  /**
+   * Método de pago con el que piensa pagar (para calcular el IGTF)
+   * @example "ZELLE"
+   */
+  @IsEnum(PaymentMethod, { message: 'paymentMethod debe ser un método válido' })
+  @IsOptional()
+  paymentMethod?: PaymentMethod;
+
+  /**
+   * Moneda en efectivo (por defecto USD)
+   * @example "VES"
+   */
+  @IsEnum(Currency, { message: 'paymentCurrency debe ser USD o VES' })
+  @IsOptional()
+  paymentCurrency?: Currency;
+}
@@ -8,14 +8,22 @@ import {
   Delete,
   HttpCode,
   HttpStatus,
+  UseGuards,
 } from '@nestjs/common';
+import { Role } from '@prisma/client';
 import { CategoriesService } from './categories.service';
 import { CreateCategoryDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
 import { CreateSubcategoryDto } from './dto/create-subcategory.dto';
 import { UpdateSubcategoryDto } from './dto/update-subcategory.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Public } from '../auth/decorators/public.decorator';
 
 @Controller('categories')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPER_ADMIN)
 export class CategoriesController {
   constructor(private readonly categoriesService: CategoriesService) {}
 
@@ -34,6 +42,7 @@ export class CategoriesController {
    * @route GET /categories
    */
   @Get()
+  @Public()
   findAll() {
     return this.categoriesService.findAll();
   }
@@ -43,6 +52,7 @@ export class CategoriesController {
    * @route GET /categories/:id
    */
   @Get(':id')
+  @Public()
   findOne(@Param('id') id: string) {
     return this.categoriesService.findOne(id);
   }
@@ -84,6 +94,7 @@ export class CategoriesController {
    * @route GET /categories/:categoryId/subcategories
    */
   @Get(':categoryId/subcategories')
+  @Public()
   findAllSubcategories(@Param('categoryId') categoryId: string) {
     return this.categoriesService.findAllSubcategories(categoryId);
   }
@@ -93,6 +104,7 @@ export class CategoriesController {
    * @route GET /categories/subcategories/:id
    */
   @Get('subcategories/:id')
+  @Public()
   findOneSubcategory(@Param('id') id: string) {
     return this.categoriesService.findOneSubcategory(id);
   }
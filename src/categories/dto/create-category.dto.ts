@@ -5,6 +5,7 @@ import {
   IsHexColor,
   IsInt,
   Min,
+  IsBoolean,
 } from 'class-validator';
 
 /**
@@ -53,4 +54,12 @@ export class CreateCategoryDto {
   @Min(0, { message: 'El orden debe ser mayor o igual a 0' })
   @IsOptional()
   order?: number;
+
+  /**
+   * Productos de la categoría exentos de IVA
+   * @example false
+   */
+  @IsBoolean({ message: 'taxExempt debe ser verdadero o falso' })
+  @IsOptional()
+  taxExempt?: boolean;
 }
@@ -0,0 +1,34 @@
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { CheckoutService } from './checkout.service';
+import { CheckoutQuoteDto } from './dto/checkout-quote.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthRequest } from '../common/interfaces/auth-request.interface';
+
+/**
+ * Controlador del checkout
+ * Todos los endpoints requieren autenticación
+ */
+@Controller('checkout')
+@UseGuards(JwtAuthGuard)
+export class CheckoutController {
+  constructor(private readonly checkoutService: CheckoutService) {}
+
+  /**
+   * POST /checkout/quote
+   * Cotizar el carrito para una dirección: métodos de envío disponibles,
+   * su costo, días estimados y el total a pagar con cada uno
+   */
+  @Post('quote')
+  @HttpCode(HttpStatus.OK)
+  async quote(@Request() req: AuthRequest, @Body() dto: CheckoutQuoteDto) {
+    return this.checkoutService.quote(req.user.id, dto);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { CheckoutService } from './checkout.service';
+import { CheckoutController } from './checkout.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CartModule } from '../cart/cart.module';
+import { ShippingModule } from '../shipping/shipping.module';
+import { TaxesModule } from '../taxes/taxes.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    CartModule,
+    ShippingModule,
+    TaxesModule,
+    ExchangeRatesModule,
+  ],
+  controllers: [CheckoutController],
+  providers: [CheckoutService],
+})
+export class CheckoutModule {}
@@ -0,0 +1,141 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PaymentMethod, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CartService } from '../cart/cart.service';
+import { ShippingService } from '../shipping/shipping.service';
+import { calculateWeightGrams } from '../shipping/utils/delivery-fee.util';
+import { TaxesService } from '../taxes/taxes.service';
+import {
+  calculateTaxes,
+  resolvePaymentCurrency,
+} from '../taxes/utils/tax-calculator.util';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { toVes } from '../exchange-rates/utils/currency.util';
+import { CheckoutQuoteDto } from './dto/checkout-quote.dto';
+
+/**
+ * Cotización del checkout
+ * - Usa el carrito del usuario y la dirección elegida
+ * - Devuelve cada método de envío con cobertura, su costo y el total a pagar
+ * - Es referencial: createOrder recalcula todo con el método elegido
+ */
+@Injectable()
+export class CheckoutService {
+  constructor(
+    private prisma: PrismaService,
+    private cartService: CartService,
+    private shippingService: ShippingService,
+    private taxesService: TaxesService,
+    private exchangeRatesService: ExchangeRatesService,
+  ) {}
+
+  async quote(userId: string, dto: CheckoutQuoteDto) {
+    const address = await this.prisma.address.findFirst({
+      where: { id: dto.addressId, userId, isActive: true },
+    });
+
+    if (!address) {
+      throw new NotFoundException(
+        'Dirección no encontrada o no pertenece al usuario',
+      );
+    }
+
+    const [cart, rate, taxRates] = await Promise.all([
+      this.cartService.getOrCreateCart(userId),
+      this.exchangeRatesService.findCurrent(),
+      this.taxesService.getRates(),
+    ]);
+
+    if (cart.items.length === 0) {
+      throw new BadRequestException('El carrito está vacío');
+    }
+
+    const lines = cart.items.map((item) => ({
+      price: item.variant.price,
+      quantity: item.quantity,
+      taxExempt: item.variant.product.category.taxExempt,
+    }));
+    const weightGrams = calculateWeightGrams(
+      cart.items.map((item) => ({
+        quantity: item.quantity,
+        weightGrams: item.variant.weightGrams,
+      })),
+    );
+    const paymentCurrency = dto.paymentMethod
+      ? resolvePaymentCurrency(dto.paymentMethod, dto.paymentCurrency)
+      : undefined;
+
+    const taxes = calculateTaxes(lines, taxRates, paymentCurrency);
+    const options = await this.shippingService.quoteAll(address, weightGrams);
+    const storeCreditBalance = await this.getStoreCreditBalance(userId, dto);
+
+    return {
+      addressId: address.id,
+      weightGrams,
+      subtotal: taxes.subtotal,
+      taxes: {
+        ivaRate: taxes.ivaRate,
+        iva: taxes.iva,
+        exemptBase: taxes.exemptBase,
+      },
+      exchangeRate: rate?.rate ?? null,
+      shippingMethods: options.map(
+        ({ method, fee, estimatedDaysMin, estimatedDaysMax }) => {
+          // El IGTF depende del envío y del saldo a favor, así que el total
+          // va por método (igual que en createOrder)
+          const storeCredit = Prisma.Decimal.min(
+            storeCreditBalance,
+            calculateTaxes(lines, taxRates, undefined, fee).total,
+          );
+          const total = calculateTaxes(
+            lines,
+            taxRates,
+            paymentCurrency,
+            fee,
+            storeCredit,
+          );
+
+          return {
+            id: method.id,
+            name: method.name,
+            description: method.description,
+            carrier: method.carrier,
+            cost: fee,
+            estimatedDaysMin,
+            estimatedDaysMax,
+            estimatedDelivery: method.estimatedDelivery,
+            igtfRate: total.igtfRate,
+            igtf: total.igtf,
+            total: total.total,
+            totalVes: rate ? toVes(total.total, rate.rate) : null,
+            storeCredit,
+            amountDue: total.total.sub(storeCredit),
+          };
+        },
+      ),
+    };
+  }
+
+  /**
+   * Saldo a favor a aplicar (0 si el cliente no lo pidió)
+   */
+  private async getStoreCreditBalance(userId: string, dto: CheckoutQuoteDto) {
+    if (
+      !dto.useStoreCredit &&
+      dto.paymentMethod !== PaymentMethod.STORE_CREDIT
+    ) {
+      return new Prisma.Decimal(0);
+    }
+
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { storeCreditBalance: true },
+    });
+
+    return user.storeCreditBalance;
+  }
+}
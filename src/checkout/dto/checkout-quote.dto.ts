@@ -0,0 +1,45 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+} from 'class-validator';
+import { Currency, PaymentMethod } from '@prisma/client';
+
+/**
+ * DTO para cotizar el envío y el total del carrito antes de comprar
+ */
+export class CheckoutQuoteDto {
+  /**
+   * UUID de la dirección de entrega
+   * @example "550e8400-e29b-41d4-a716-446655440000"
+   */
+  @IsUUID('4', { message: 'addressId debe ser un UUID válido' })
+  @IsNotEmpty({ message: 'addressId es obligatorio' })
+  addressId: string;
+
+  /**
+   * Método de pago con el que piensa pagar (para calcular el IGTF)
+   * @example "ZELLE"
+   */
+  @IsEnum(PaymentMethod, { message: 'paymentMethod debe ser un método válido' })
+  @IsOptional()
+  paymentMethod?: PaymentMethod;
+
+  /**
+   * Moneda en efectivo (por defecto USD)
+   * @example "VES"
+   */
+  @IsEnum(Currency, { message: 'paymentCurrency debe ser USD o VES' })
+  @IsOptional()
+  paymentCurrency?: Currency;
+
+  /**
+   * Aplicar el saldo a favor disponible (como en POST /orders)
+   * @example true
+   */
+  @IsBoolean({ message: 'useStoreCredit debe ser verdadero o falso' })
+  @IsOptional()
+  useStoreCredit?: boolean;
+}
@@ -6,5 +6,6 @@ export interface AuthRequest extends Request {
     id: string;
     email: string;
     role: Role;
+    sessionId: string;
   };
 }
@@ -0,0 +1,13 @@
+/**
+ * Fuente de la hora actual
+ * Se inyecta con el token CLOCK para poder usar un reloj falso en tests
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const CLOCK = Symbol('CLOCK');
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
@@ -0,0 +1,52 @@
+/**
+ * Prisma en memoria para pruebas unitarias
+ *
+ * - createClient arma los modelos que usa cada prueba y recibe el registro
+ *   donde anotar cómo deshacer cada escritura
+ * - $transaction corre el callback con su propio cliente y, si falla,
+ *   deshace sus escrituras (como un ROLLBACK)
+ * - $queryRaw no hace nada: los SELECT ... FOR UPDATE solo bloquean filas
+ *
+ * No reproduce bloqueos de fila ni niveles de aislamiento de PostgreSQL.
+ * Las pruebas de concurrencia con este fake validan la lógica del servicio
+ * (updates condicionales, orden de las escrituras, rollback), no la DB.
+ */
+export type UndoLog = (() => void)[];
+
+/**
+ * Cede el event loop para que operaciones simultáneas se intercalen
+ */
+export const tick = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+/**
+ * Agrega un registro a una tabla en memoria y anota cómo quitarlo
+ */
+export function insertUndoable<T>(table: T[], row: T, undo: UndoLog): T {
+  table.push(row);
+  undo.push(() => table.splice(table.indexOf(row), 1));
+  return row;
+}
+
+export function createFakePrisma<T extends object>(
+  createClient: (undo: UndoLog) => T,
+) {
+  const withRaw = (client: T) => ({
+    ...client,
+    $queryRaw: () => Promise.resolve([]),
+  });
+
+  return {
+    ...withRaw(createClient([])),
+    $transaction: async <R>(
+      fn: (tx: ReturnType<typeof withRaw>) => Promise<R>,
+    ) => {
+      const undo: UndoLog = [];
+      try {
+        return await fn(withRaw(createClient(undo)));
+      } catch (error) {
+        undo.reverse().forEach((revert) => revert());
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Columna de un CSV: encabezado y cómo obtener el valor de cada fila
+ */
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+/**
+ * Escapa un valor según RFC 4180 y neutraliza fórmulas (=, +, -, @)
+ * para que Excel/Sheets no las ejecuten al abrir el archivo
+ */
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  // Prisma.Decimal y similares definen su propio toString
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object' &&
+          value.toString === Object.prototype.toString
+        ? JSON.stringify(value)
+        : String(value as string);
+
+  if (/^[=+\-@\t\r]/.test(text) && isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
+
+/**
+ * Convierte filas a CSV (separador coma, saltos CRLF)
+ *
+ * @example toCsv(rows, [{ header: 'Producto', value: (r) => r.name }])
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [
+    columns.map((column) => escapeCsvValue(column.header)).join(','),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCsvValue(column.value(row))).join(','),
+    ),
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,30 @@
+/**
+ * Teléfono venezolano normalizado: +58 + código de área/operadora + 7 dígitos
+ * - Móviles: 412, 414, 416, 422, 424, 426
+ * - Fijos: 2xx (ej: 212 Caracas)
+ */
+export const VENEZUELAN_PHONE_REGEX =
+  /^\+58(?:4(?:12|14|16|22|24|26)|2\d{2})\d{7}$/;
+
+/**
+ * Normaliza un teléfono venezolano a formato +58XXXXXXXXXX
+ *
+ * Acepta "0424-1234567", "+58 424 1234567", "584241234567", etc.
+ * Si no se reconoce el formato retorna el valor limpio sin cambios,
+ * para que la validación lo rechace con un mensaje claro.
+ *
+ * @example normalizeVenezuelanPhone('0424-123.45.67') // '+584241234567'
+ */
+export function normalizeVenezuelanPhone(phone: string): string {
+  const digits = phone.replace(/[\s\-().]/g, '');
+
+  if (/^0\d{10}$/.test(digits)) {
+    return `+58${digits.slice(1)}`;
+  }
+
+  if (/^58\d{10}$/.test(digits)) {
+    return `+${digits}`;
+  }
+
+  return digits;
+}
@@ -0,0 +1,49 @@
+/**
+ * Zona horaria de la tienda. Los límites de día de reportes y métricas
+ * se calculan en hora de Caracas, no en UTC.
+ */
+export const STORE_TIMEZONE = 'America/Caracas';
+
+/**
+ * Venezuela usa UTC-4 fijo (sin horario de verano desde 2016)
+ */
+const STORE_UTC_OFFSET = '-04:00';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fecha actual en la zona de la tienda, formato YYYY-MM-DD
+ */
+export function todayInStoreTimezone(now: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: STORE_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+/**
+ * Instante UTC en que empieza el día indicado (YYYY-MM-DD) en Caracas
+ *
+ * @example startOfStoreDay('2025-11-15') // 2025-11-15T04:00:00.000Z
+ */
+export function startOfStoreDay(date: string): Date {
+  return new Date(`${date}T00:00:00${STORE_UTC_OFFSET}`);
+}
+
+/**
+ * Instante UTC en que empieza el día siguiente al indicado (límite exclusivo)
+ */
+export function endOfStoreDay(date: string): Date {
+  return new Date(startOfStoreDay(date).getTime() + DAY_MS);
+}
+
+/**
+ * Suma (o resta) días a una fecha YYYY-MM-DD
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
@@ -0,0 +1,19 @@
+import { IsNumber, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * DTO para que un admin cargue la tasa del día
+ */
+export class CreateExchangeRateDto {
+  /**
+   * Bs por 1 USD
+   * @example 36.5
+   */
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 4 },
+    { message: 'rate debe ser un número con máximo 4 decimales' },
+  )
+  @Min(0.0001, { message: 'rate debe ser mayor a 0' })
+  rate: number;
+}
@@ -0,0 +1,29 @@
+import { IsOptional, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * DTO para consultar el histórico de tasas
+ * Usado en GET /exchange-rates con query params
+ */
+export class QueryExchangeRatesDto {
+  /**
+   * Número de página (para paginación)
+   * @example 1
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'page debe ser un número entero' })
+  @Min(1, { message: 'page debe ser al menos 1' })
+  @IsOptional()
+  page?: number = 1;
+
+  /**
+   * Cantidad de resultados por página
+   * @example 20
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'limit debe ser un número entero' })
+  @Min(1, { message: 'limit debe ser al menos 1' })
+  @Max(100, { message: 'limit no puede ser mayor a 100' })
+  @IsOptional()
+  limit?: number = 20;
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Request,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { CreateExchangeRateDto } from './dto/create-exchange-rate.dto';
+import { QueryExchangeRatesDto } from './dto/query-exchange-rates.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import { AuthRequest } from '../common/interfaces/auth-request.interface';
+
+@Controller('exchange-rates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPER_ADMIN)
+export class ExchangeRatesController {
+  constructor(private readonly exchangeRatesService: ExchangeRatesService) {}
+
+  /**
+   * Tasa vigente (Bs por 1 USD)
+   * @route GET /exchange-rates/current
+   */
+  @Get('current')
+  @Public()
+  getCurrent() {
+    return this.exchangeRatesService.getCurrent();
+  }
+
+  /**
+   * Histórico de tasas
+   * @route GET /exchange-rates?page=1&limit=20
+   */
+  @Get()
+  findAll(@Query() query: QueryExchangeRatesDto) {
+    return this.exchangeRatesService.findAll(query);
+  }
+
+  /**
+   * Cargar la tasa manualmente; pasa a ser la vigente
+   * @route POST /exchange-rates
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(@Request() req: AuthRequest, @Body() dto: CreateExchangeRateDto) {
+    return this.exchangeRatesService.create(dto, req.user.id);
+  }
+
+  /**
+   * Traer la tasa del proveedor configurado ahora mismo
+   * @route POST /exchange-rates/refresh
+   */
+  @Post('refresh')
+  @HttpCode(HttpStatus.CREATED)
+  refresh() {
+    return this.exchangeRatesService.refreshFromProvider();
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangeRatesController } from './exchange-rates.controller';
+import { StubExchangeRateProvider } from './providers/stub-exchange-rate.provider';
+import { EXCHANGE_RATE_PROVIDER } from './interfaces/exchange-rate-provider.interface';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [ExchangeRatesController],
+  providers: [
+    ExchangeRatesService,
+    // Cambiar useClass para usar otra fuente (ej: BCV)
+    { provide: EXCHANGE_RATE_PROVIDER, useClass: StubExchangeRateProvider },
+  ],
+  exports: [ExchangeRatesService],
+})
+export class ExchangeRatesModule {}
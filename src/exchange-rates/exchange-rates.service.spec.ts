@@ -0,0 +1,77 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { ExchangeRateSource } from '@prisma/client';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { EXCHANGE_RATE_PROVIDER } from './interfaces/exchange-rate-provider.interface';
+
+describe('ExchangeRatesService', () => {
+  let service: ExchangeRatesService;
+  const findFirst = jest.fn();
+  const create = jest.fn();
+  const fetchRate = jest.fn();
+
+  beforeEach(async () => {
+    findFirst.mockReset();
+    create
+      .mockReset()
+      .mockImplementation(({ data }: { data: object }) =>
+        Promise.resolve({ id: 'rate-1', ...data }),
+      );
+    fetchRate.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExchangeRatesService,
+        {
+          provide: PrismaService,
+          useValue: { exchangeRate: { findFirst, create } },
+        },
+        {
+          provide: EXCHANGE_RATE_PROVIDER,
+          useValue: { name: 'test', fetchRate },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExchangeRatesService>(ExchangeRatesService);
+  });
+
+  it('responde 503 al cobrar si no hay tasa cargada', async () => {
+    findFirst.mockResolvedValue(null);
+
+    await expect(service.findCurrent()).resolves.toBeNull();
+    await expect(service.getCurrent()).rejects.toBeInstanceOf(
+      ServiceUnavailableException,
+    );
+  });
+
+  it('guarda la tasa del proveedor con su nombre', async () => {
+    fetchRate.mockResolvedValue(40.25);
+
+    const rate = await service.refreshFromProvider();
+
+    expect(create).toHaveBeenCalledWith({
+      data: {
+        rate: 40.25,
+        source: ExchangeRateSource.PROVIDER,
+        provider: 'test',
+      },
+    });
+    expect(rate.provider).toBe('test');
+  });
+
+  it('no guarda nada si el proveedor falla o devuelve una tasa inválida', async () => {
+    fetchRate.mockRejectedValueOnce(new Error('timeout'));
+    await expect(service.refreshFromProvider()).rejects.toBeInstanceOf(
+      ServiceUnavailableException,
+    );
+
+    fetchRate.mockResolvedValueOnce(0);
+    await expect(service.refreshFromProvider()).rejects.toBeInstanceOf(
+      ServiceUnavailableException,
+    );
+
+    expect(create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ExchangeRate, ExchangeRateSource } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateExchangeRateDto } from './dto/create-exchange-rate.dto';
+import { QueryExchangeRatesDto } from './dto/query-exchange-rates.dto';
+import {
+  EXCHANGE_RATE_PROVIDER,
+  ExchangeRateProvider,
+} from './interfaces/exchange-rate-provider.interface';
+
+/**
+ * Tasa de cambio USD -> Bs
+ * - Los precios se guardan en USD; los montos en Bs se calculan con la tasa vigente
+ * - La tasa la carga un admin o la trae el proveedor configurado
+ * - Se guarda el histórico: la vigente es la más reciente
+ */
+@Injectable()
+export class ExchangeRatesService {
+  private readonly logger = new Logger(ExchangeRatesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(EXCHANGE_RATE_PROVIDER) private provider: ExchangeRateProvider,
+  ) {}
+
+  /**
+   * Job programado cada hora
+   * Solo consulta al proveedor si EXCHANGE_RATE_AUTO_REFRESH=true
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'exchange-rate-refresh' })
+  async handleCron() {
+    if (process.env.EXCHANGE_RATE_AUTO_REFRESH !== 'true') {
+      return;
+    }
+
+    try {
+      await this.refreshFromProvider();
+    } catch (error) {
+      this.logger.error(
+        `No se pudo actualizar la tasa desde ${this.provider.name}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+    }
+  }
+
+  /**
+   * Tasa vigente, o null si todavía no se ha cargado ninguna
+   * Para mostrar precios: si no hay tasa, los montos en Bs van en null
+   */
+  async findCurrent(): Promise<ExchangeRate | null> {
+    return this.prisma.exchangeRate.findFirst({
+      where: { effectiveAt: { lte: new Date() } },
+      orderBy: { effectiveAt: 'desc' },
+    });
+  }
+
+  /**
+   * Tasa vigente; sin tasa no se puede cobrar (503)
+   */
+  async getCurrent(): Promise<ExchangeRate> {
+    const rate = await this.findCurrent();
+
+    if (!rate) {
+      throw new ServiceUnavailableException(
+        'No hay una tasa de cambio configurada. Intenta más tarde',
+      );
+    }
+
+    return rate;
+  }
+
+  /**
+   * Histórico de tasas (más recientes primero)
+   */
+  async findAll(query: QueryExchangeRatesDto) {
+    const { page = 1, limit = 20 } = query;
+
+    const skip: number = (page - 1) * limit;
+
+    const [rates, total] = await Promise.all([
+      this.prisma.exchangeRate.findMany({
+        skip,
+        take: limit,
+        orderBy: { effectiveAt: 'desc' },
+        include: {
+          createdBy: {
+            select: {
+              id: true,
+              email: true,
+              name: true,
+            },
+          },
+        },
+      }),
+      this.prisma.exchangeRate.count(),
+    ]);
+
+    return {
+      data: rates,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Cargar una tasa manualmente (admin)
+   */
+  async create(dto: CreateExchangeRateDto, adminId: string) {
+    return this.prisma.exchangeRate.create({
+      data: {
+        rate: dto.rate,
+        source: ExchangeRateSource.MANUAL,
+        createdById: adminId,
+      },
+    });
+  }
+
+  /**
+   * Consultar al proveedor y guardar la tasa como vigente
+   */
+  async refreshFromProvider() {
+    let value: number;
+
+    try {
+      value = await this.provider.fetchRate();
+    } catch {
+      throw new ServiceUnavailableException(
+        `El proveedor de tasas (${this.provider.name}) no respondió`,
+      );
+    }
+
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new ServiceUnavailableException(
+        `El proveedor de tasas (${this.provider.name}) devolvió una tasa inválida`,
+      );
+    }
+
+    const rate = await this.prisma.exchangeRate.create({
+      data: {
+        rate: value,
+        source: ExchangeRateSource.PROVIDER,
+        provider: this.provider.name,
+      },
+    });
+
+    this.logger.log(`Tasa actualizada desde ${this.provider.name}: ${value}`);
+
+    return rate;
+  }
+}
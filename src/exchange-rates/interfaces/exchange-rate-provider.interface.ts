@@ -0,0 +1,14 @@
+/**
+ * Fuente externa de la tasa USD -> Bs
+ * Se inyecta con el token EXCHANGE_RATE_PROVIDER; para cambiar de fuente
+ * basta con registrar otra implementación en ExchangeRatesModule
+ */
+export interface ExchangeRateProvider {
+  /** Nombre que queda guardado en ExchangeRate.provider */
+  readonly name: string;
+
+  /** Bs por 1 USD */
+  fetchRate(): Promise<number>;
+}
+
+export const EXCHANGE_RATE_PROVIDER = Symbol('EXCHANGE_RATE_PROVIDER');
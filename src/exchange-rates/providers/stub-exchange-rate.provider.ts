@@ -0,0 +1,21 @@
+import { Injectable } from '@nestjs/common';
+import { ExchangeRateProvider } from '../interfaces/exchange-rate-provider.interface';
+
+const DEFAULT_STUB_RATE = 36.5;
+
+/**
+ * Proveedor local para desarrollo: no consulta ningún servicio externo
+ * La tasa se configura con EXCHANGE_RATE_STUB_VALUE (por defecto 36.5)
+ */
+@Injectable()
+export class StubExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'stub';
+
+  fetchRate(): Promise<number> {
+    const value = Number(process.env.EXCHANGE_RATE_STUB_VALUE);
+
+    return Promise.resolve(
+      Number.isFinite(value) && value > 0 ? value : DEFAULT_STUB_RATE,
+    );
+  }
+}
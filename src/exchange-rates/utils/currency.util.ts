@@ -0,0 +1,11 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Convierte un monto en USD a Bs con la tasa dada (2 decimales)
+ */
+export function toVes(
+  amountUsd: Prisma.Decimal.Value,
+  rate: Prisma.Decimal.Value,
+): Prisma.Decimal {
+  return new Prisma.Decimal(amountUsd).mul(rate).toDecimalPlaces(2);
+}
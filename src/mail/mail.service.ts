@@ -0,0 +1,115 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createTransport, Transporter } from 'nodemailer';
+
+/**
+ * Datos mínimos de un email saliente
+ */
+interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Servicio de envío de emails transaccionales
+ *
+ * - Con MAIL_TRANSPORT=smtp se envían por SMTP (SMTP_HOST, SMTP_PORT,
+ *   SMTP_USER, SMTP_PASS, MAIL_FROM)
+ * - Sin transporte configurado solo se registra destinatario y asunto:
+ *   el cuerpo lleva enlaces con tokens vigentes y nunca va al log
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly transporter = this.createTransporter();
+
+  /**
+   * Enviar enlace de verificación de email
+   */
+  async sendEmailVerification(to: string, name: string | null, link: string) {
+    await this.send({
+      to,
+      subject: 'Confirma tu email - Del Carajo',
+      text: [
+        `Hola${name ? ` ${name}` : ''},`,
+        'Confirma tu email entrando a este enlace:',
+        link,
+        'Si no creaste una cuenta, ignora este mensaje.',
+      ].join('\n\n'),
+    });
+  }
+
+  /**
+   * Enviar enlace para restablecer contraseña
+   */
+  async sendPasswordReset(
+    to: string,
+    name: string | null,
+    link: string,
+    expiresInMinutes: number,
+  ) {
+    await this.send({
+      to,
+      subject: 'Restablece tu contraseña - Del Carajo',
+      text: [
+        `Hola${name ? ` ${name}` : ''},`,
+        'Para crear una nueva contraseña entra a este enlace:',
+        link,
+        `El enlace vence en ${expiresInMinutes} minutos. Si no lo pediste, ignora este mensaje.`,
+      ].join('\n\n'),
+    });
+  }
+
+  /**
+   * Avisar que el comprobante de pago fue rechazado y hay que subir otro
+   */
+  async sendPaymentProofRejected(
+    to: string,
+    name: string | null,
+    orderNumber: string,
+    reason: string,
+    link: string,
+  ) {
+    await this.send({
+      to,
+      subject: 'Revisa tu comprobante de pago - Del Carajo',
+      text: [
+        `Hola${name ? ` ${name}` : ''},`,
+        `No pudimos verificar el comprobante de pago de tu orden ${orderNumber}.`,
+        `Motivo: ${reason}`,
+        'Sube un nuevo comprobante desde aquí:',
+        link,
+      ].join('\n\n'),
+    });
+  }
+
+  private async send(message: MailMessage): Promise<void> {
+    if (!this.transporter) {
+      this.logger.log(
+        `📧 (sin transporte) Para: ${message.to} | ${message.subject}`,
+      );
+      return;
+    }
+
+    await this.transporter.sendMail({
+      from: process.env.MAIL_FROM || 'Del Carajo <no-reply@esdelcarajo.com>',
+      ...message,
+    });
+    this.logger.log(`📧 Enviado a: ${message.to} | ${message.subject}`);
+  }
+
+  private createTransporter(): Transporter | null {
+    if (process.env.MAIL_TRANSPORT !== 'smtp') {
+      return null;
+    }
+
+    return createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+}
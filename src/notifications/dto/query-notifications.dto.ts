@@ -0,0 +1,58 @@
+import {
+  IsOptional,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { AdminNotificationType } from '@prisma/client';
+
+/**
+ * DTO para consultar notificaciones del panel
+ * Usado en GET /admin/notifications con query params
+ */
+export class QueryNotificationsDto {
+  /**
+   * Solo notificaciones sin leer
+   * @example true
+   */
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean({ message: 'unread debe ser verdadero o falso' })
+  @IsOptional()
+  unread?: boolean;
+
+  /**
+   * Filtrar por tipo
+   * @example "INVENTORY_DIGEST"
+   */
+  @IsEnum(AdminNotificationType, {
+    message: 'type debe ser un tipo de notificación válido',
+  })
+  @IsOptional()
+  type?: AdminNotificationType;
+
+  /**
+   * Número de página (para paginación)
+   * @example 1
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'page debe ser un número entero' })
+  @Min(1, { message: 'page debe ser al menos 1' })
+  @IsOptional()
+  page?: number = 1;
+
+  /**
+   * Cantidad de resultados por página
+   * @example 20
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'limit debe ser un número entero' })
+  @Min(1, { message: 'limit debe ser al menos 1' })
+  @Max(100, { message: 'limit no puede ser mayor a 100' })
+  @IsOptional()
+  limit?: number = 20;
+}
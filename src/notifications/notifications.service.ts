@@ -0,0 +1,88 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { AdminNotificationType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueryNotificationsDto } from './dto/query-notifications.dto';
+
+/**
+ * Notificaciones para el panel de administración
+ * Los jobs escriben aquí y el panel las consulta (polling)
+ */
+@Injectable()
+export class NotificationsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Registrar una notificación
+   */
+  async create(data: {
+    type: AdminNotificationType;
+    title: string;
+    message: string;
+    data?: Prisma.InputJsonValue;
+  }) {
+    return this.prisma.adminNotification.create({ data });
+  }
+
+  /**
+   * Listar notificaciones (más recientes primero) con total de no leídas
+   */
+  async findAll(query: QueryNotificationsDto) {
+    const { unread, type, page = 1, limit = 20 } = query;
+
+    const skip: number = (page - 1) * limit;
+
+    const where: Prisma.AdminNotificationWhereInput = {};
+
+    if (unread !== undefined) {
+      where.readAt = unread ? null : { not: null };
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      this.prisma.adminNotification.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.adminNotification.count({ where }),
+      this.prisma.adminNotification.count({ where: { readAt: null } }),
+    ]);
+
+    return {
+      data: notifications,
+      meta: {
+        total,
+        unread: unreadCount,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Marcar una notificación como leída
+   */
+  async markAsRead(id: string) {
+    const notification = await this.prisma.adminNotification.findUnique({
+      where: { id },
+    });
+
+    if (!notification) {
+      throw new NotFoundException('Notificación no encontrada');
+    }
+
+    if (notification.readAt) {
+      return notification;
+    }
+
+    return this.prisma.adminNotification.update({
+      where: { id },
+      data: { readAt: new Date() },
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { OrderStatus } from '@prisma/client';
+
+/**
+ * Estados que cuentan como venta (pago recibido)
+ * Usado por el dashboard y los reportes de administración
+ */
+export const REVENUE_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.PAGO_CONFIRMADO,
+  OrderStatus.EN_CAMINO,
+  OrderStatus.ENTREGADO,
+];
+
+/**
+ * Transiciones de estado permitidas
+ * ENTREGADO y CANCELADO son estados finales
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING_PAYMENT]: [
+    OrderStatus.PAGO_CONFIRMADO,
+    OrderStatus.CANCELADO,
+  ],
+  [OrderStatus.PAGO_CONFIRMADO]: [OrderStatus.EN_CAMINO, OrderStatus.CANCELADO],
+  [OrderStatus.EN_CAMINO]: [OrderStatus.ENTREGADO],
+  [OrderStatus.ENTREGADO]: [],
+  [OrderStatus.CANCELADO]: [],
+};
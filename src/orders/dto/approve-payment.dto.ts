@@ -0,0 +1,15 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+
+/**
+ * DTO para verificar un pago (admin)
+ */
+export class ApprovePaymentDto {
+  /**
+   * Notas para el historial de la orden (opcional)
+   * @example "Verificado en el banco"
+   */
+  @IsString({ message: 'notes debe ser un texto' })
+  @IsOptional()
+  @MaxLength(500, { message: 'notes no puede exceder 500 caracteres' })
+  notes?: string;
+}
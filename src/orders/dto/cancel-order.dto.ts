@@ -0,0 +1,15 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+
+/**
+ * DTO para que el cliente cancele su orden
+ */
+export class CancelOrderDto {
+  /**
+   * Motivo de la cancelación (opcional)
+   * @example "Me equivoqué de talla"
+   */
+  @IsString({ message: 'reason debe ser un texto' })
+  @IsOptional()
+  @MaxLength(500, { message: 'reason no puede exceder 500 caracteres' })
+  reason?: string;
+}
@@ -4,9 +4,10 @@ import {
   IsString,
   IsOptional,
   IsNotEmpty,
+  IsBoolean,
   MaxLength,
 } from 'class-validator';
-import { PaymentMethod } from '@prisma/client';
+import { Currency, PaymentMethod } from '@prisma/client';
 
 /**
  * DTO para crear una nueva orden desde el carrito
@@ -20,14 +21,43 @@ export class CreateOrderDto {
   @IsNotEmpty({ message: 'addressId es obligatorio' })
   addressId: string;
 
+  /**
+   * UUID del método de envío (ver GET /shipping-methods?state=...)
+   * @example "550e8400-e29b-41d4-a716-446655440000"
+   */
+  @IsUUID('4', { message: 'shippingMethodId debe ser un UUID válido' })
+  @IsNotEmpty({ message: 'shippingMethodId es obligatorio' })
+  shippingMethodId: string;
+
   /**
    * Método de pago seleccionado
+   * STORE_CREDIT solo si el saldo a favor cubre todo el total
    * @example "PAGO_MOVIL"
    */
   @IsEnum(PaymentMethod, { message: 'paymentMethod debe ser un método válido' })
   @IsNotEmpty({ message: 'paymentMethod es obligatorio' })
   paymentMethod: PaymentMethod;
 
+  /**
+   * Moneda en que pagará en efectivo (por defecto USD)
+   * Se ignora en los demás métodos: Zelle es en USD y el resto en Bs.
+   * Es informativa: la orden puede pagarse en partes con otras monedas y
+   * el IGTF se cobra en cada pago en divisas
+   * @example "USD"
+   */
+  @IsEnum(Currency, { message: 'paymentCurrency debe ser USD o VES' })
+  @IsOptional()
+  paymentCurrency?: Currency;
+
+  /**
+   * Aplicar el saldo a favor disponible (hasta cubrir el total)
+   * El resto se paga con paymentMethod
+   * @example true
+   */
+  @IsBoolean({ message: 'useStoreCredit debe ser verdadero o falso' })
+  @IsOptional()
+  useStoreCredit?: boolean;
+
   /**
    * Notas adicionales del cliente (opcional)
    * @example "Por favor llamar antes de llegar"
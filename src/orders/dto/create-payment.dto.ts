@@ -0,0 +1,81 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  IsEnum,
+  Min,
+  MaxLength,
+  MinLength,
+  Matches,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { Currency, PaymentMethod } from '@prisma/client';
+
+/**
+ * DTO para reportar un pago con comprobante (multipart/form-data)
+ * La imagen va en el campo "file". Una orden puede tener varios pagos
+ * (ej: mitad por Zelle y mitad por Pago Móvil en Bs)
+ */
+export class CreatePaymentDto {
+  /**
+   * Método con el que se hizo este pago
+   * @example "PAGO_MOVIL"
+   */
+  @IsEnum(PaymentMethod, { message: 'method debe ser un método válido' })
+  method: PaymentMethod;
+
+  /**
+   * Monto pagado en la moneda indicada
+   * Los pagos en divisas (Zelle, efectivo en USD) incluyen el IGTF:
+   * para cubrir 100 USD con IGTF al 3% se pagan 103 USD
+   * @example 1650.5
+   */
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'amount debe ser un número con máximo 2 decimales' },
+  )
+  @Min(0.01, { message: 'amount debe ser mayor a 0' })
+  amount: number;
+
+  /**
+   * Moneda del pago (por defecto USD)
+   * Los pagos en Bs se convierten con la tasa guardada en la orden
+   * @example "VES"
+   */
+  @IsEnum(Currency, { message: 'currency debe ser USD o VES' })
+  @IsOptional()
+  currency?: Currency = Currency.USD;
+
+  /**
+   * Número de referencia bancaria o de la operación
+   * @example "00123456789"
+   */
+  @IsString({ message: 'reference debe ser un texto' })
+  @IsNotEmpty({ message: 'reference es obligatorio' })
+  @Matches(/^[A-Za-z0-9-]{4,40}$/, {
+    message:
+      'reference debe tener entre 4 y 40 caracteres (letras, números o guiones)',
+  })
+  reference: string;
+
+  /**
+   * Banco de origen (opcional)
+   * @example "Banesco"
+   */
+  @IsString({ message: 'bank debe ser un texto' })
+  @IsOptional()
+  @MaxLength(60, { message: 'bank no puede exceder 60 caracteres' })
+  bank?: string;
+
+  /**
+   * Nombre del titular que hizo el pago
+   * @example "María Pérez"
+   */
+  @IsString({ message: 'payerName debe ser un texto' })
+  @IsNotEmpty({ message: 'payerName es obligatorio' })
+  @MinLength(2, { message: 'payerName debe tener al menos 2 caracteres' })
+  @MaxLength(100, { message: 'payerName no puede exceder 100 caracteres' })
+  payerName: string;
+}
@@ -0,0 +1,14 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+/**
+ * DTO para ejecutar manualmente la expiración de órdenes sin pago
+ */
+export class ExpireOrdersDto {
+  /**
+   * Solo listar las órdenes que se cancelarían, sin modificarlas
+   * @example true
+   */
+  @IsBoolean({ message: 'dryRun debe ser verdadero o falso' })
+  @IsOptional()
+  dryRun?: boolean;
+}
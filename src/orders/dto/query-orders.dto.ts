@@ -1,4 +1,12 @@
-import { IsOptional, IsEnum, IsInt, Min, Max } from 'class-validator';
+import {
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsString,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { OrderStatus } from '@prisma/client';
 
@@ -15,6 +23,15 @@ export class QueryOrdersDto {
   @IsOptional()
   status?: OrderStatus;
 
+  /**
+   * Buscar por número de orden o email/nombre del cliente (solo admin)
+   * @example "DLC-000123"
+   */
+  @IsString({ message: 'search debe ser un texto' })
+  @IsOptional()
+  @MaxLength(100, { message: 'search no puede exceder 100 caracteres' })
+  search?: string;
+
   /**
    * Número de página (para paginación)
    * @example 1
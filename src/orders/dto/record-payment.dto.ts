@@ -0,0 +1,51 @@
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { OmitType } from '@nestjs/mapped-types';
+import { CreatePaymentDto } from './create-payment.dto';
+
+/**
+ * DTO para que un admin registre un pago ya verificado
+ * (ej: efectivo recibido en la entrega). No lleva comprobante
+ */
+export class RecordPaymentDto extends OmitType(CreatePaymentDto, [
+  'reference',
+  'payerName',
+] as const) {
+  /**
+   * Referencia de la operación (opcional en efectivo)
+   * @example "EFECTIVO-0001"
+   */
+  @IsString({ message: 'reference debe ser un texto' })
+  @IsOptional()
+  @MaxLength(40, { message: 'reference no puede exceder 40 caracteres' })
+  reference?: string;
+
+  /**
+   * Nombre de quien pagó (opcional)
+   * @example "María Pérez"
+   */
+  @IsString({ message: 'payerName debe ser un texto' })
+  @IsOptional()
+  @MaxLength(100, { message: 'payerName no puede exceder 100 caracteres' })
+  payerName?: string;
+
+  /**
+   * Bs por 1 USD a usar si currency = VES
+   * Por defecto la tasa guardada en la orden
+   * @example 36.5
+   */
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 4 },
+    { message: 'exchangeRate debe ser un número con máximo 4 decimales' },
+  )
+  @Min(0.0001, { message: 'exchangeRate debe ser mayor a 0' })
+  @IsOptional()
+  exchangeRate?: number;
+}
@@ -0,0 +1,16 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+/**
+ * DTO para rechazar un pago (admin)
+ * El motivo se envía al cliente para que suba uno nuevo
+ */
+export class RejectPaymentDto {
+  /**
+   * Motivo del rechazo
+   * @example "La referencia no coincide con ningún movimiento"
+   */
+  @IsString({ message: 'reason debe ser un texto' })
+  @IsNotEmpty({ message: 'reason es obligatorio' })
+  @MaxLength(500, { message: 'reason no puede exceder 500 caracteres' })
+  reason: string;
+}
@@ -4,8 +4,9 @@ import {
   IsOptional,
   IsNotEmpty,
   MaxLength,
+  ValidateIf,
 } from 'class-validator';
-import { OrderStatus } from '@prisma/client';
+import { OrderStatus, ShippingCarrier } from '@prisma/client';
 
 /**
  * DTO para actualizar el estado de una orden (solo ADMIN)
@@ -27,4 +28,39 @@ export class UpdateOrderStatusDto {
   @IsOptional()
   @MaxLength(500, { message: 'adminNotes no puede exceder 500 caracteres' })
   adminNotes?: string;
+
+  /**
+   * Motivo de cancelación (solo aplica cuando status = CANCELADO)
+   * @example "Cliente no completó el pago"
+   */
+  @IsString({ message: 'cancellationReason debe ser un texto' })
+  @IsOptional()
+  @MaxLength(500, {
+    message: 'cancellationReason no puede exceder 500 caracteres',
+  })
+  cancellationReason?: string;
+
+  /**
+   * Transportista (obligatorio cuando status = EN_CAMINO)
+   * @example "MRW"
+   */
+  @ValidateIf(
+    (dto: UpdateOrderStatusDto) => dto.status === OrderStatus.EN_CAMINO,
+  )
+  @IsEnum(ShippingCarrier, {
+    message: 'carrier debe ser un transportista válido',
+  })
+  carrier?: ShippingCarrier;
+
+  /**
+   * Número de guía (obligatorio cuando status = EN_CAMINO)
+   * @example "MRW-123456789"
+   */
+  @ValidateIf(
+    (dto: UpdateOrderStatusDto) => dto.status === OrderStatus.EN_CAMINO,
+  )
+  @IsString({ message: 'trackingNumber debe ser un texto' })
+  @IsNotEmpty({ message: 'trackingNumber es obligatorio al enviar la orden' })
+  @MaxLength(60, { message: 'trackingNumber no puede exceder 60 caracteres' })
+  trackingNumber?: string;
 }
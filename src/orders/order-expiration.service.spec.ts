@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
+import { OrderStatus, PaymentMethod } from '@prisma/client';
+import { OrderExpirationService } from './order-expiration.service';
+import { OrdersService } from './orders.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CLOCK } from '../common/interfaces/clock.interface';
+import { createFakePrisma } from '../common/testing/fake-prisma';
+
+type FakeOrder = {
+  id: string;
+  status: OrderStatus;
+  paymentMethod: PaymentMethod;
+  createdAt: Date;
+};
+
+type OrderFilter = {
+  status: OrderStatus;
+  OR: { paymentMethod: PaymentMethod; createdAt: { lt: Date } }[];
+};
+
+const hoursAgo = (now: Date, hours: number) =>
+  new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+describe('OrderExpirationService', () => {
+  let service: OrderExpirationService;
+  let orders: FakeOrder[];
+  let now: Date;
+  const expireOrder = jest.fn();
+
+  beforeEach(async () => {
+    now = new Date('2025-11-20T12:00:00Z');
+    orders = [];
+    expireOrder.mockReset().mockResolvedValue({});
+
+    // findMany evalúa el filtro que arma el servicio sobre órdenes en memoria
+    const prisma = createFakePrisma(() => ({
+      order: {
+        findMany: jest.fn(({ where }: { where: OrderFilter }) =>
+          Promise.resolve(
+            orders.filter(
+              (order) =>
+                order.status === where.status &&
+                where.OR.some(
+                  (condition) =>
+                    condition.paymentMethod === order.paymentMethod &&
+                    order.createdAt < condition.createdAt.lt,
+                ),
+            ),
+          ),
+        ),
+      },
+    }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderExpirationService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: OrdersService, useValue: { expireOrder } },
+        { provide: CLOCK, useValue: { now: () => now } },
+      ],
+    }).compile();
+
+    service = module.get<OrderExpirationService>(OrderExpirationService);
+  });
+
+  it('cancela solo las órdenes que superan la ventana de su método de pago', async () => {
+    orders.push(
+      {
+        id: 'pago-movil-vencida',
+        status: OrderStatus.PENDING_PAYMENT,
+        paymentMethod: PaymentMethod.PAGO_MOVIL,
+        createdAt: hoursAgo(now, 13),
+      },
+      {
+        id: 'efectivo-en-plazo',
+        status: OrderStatus.PENDING_PAYMENT,
+        paymentMethod: PaymentMethod.EFECTIVO,
+        createdAt: hoursAgo(now, 13),
+      },
+      {
+        id: 'pagada',
+        status: OrderStatus.PAGO_CONFIRMADO,
+        paymentMethod: PaymentMethod.PAGO_MOVIL,
+        createdAt: hoursAgo(now, 100),
+      },
+    );
+
+    const result = await service.expireUnpaidOrders();
+
+    expect(result.expired.map((order) => order.orderId)).toEqual([
+      'pago-movil-vencida',
+    ]);
+    expect(expireOrder).toHaveBeenCalledTimes(1);
+    expect(expireOrder).toHaveBeenCalledWith(
+      'pago-movil-vencida',
+      expect.stringContaining('12 horas'),
+    );
+
+    // Al avanzar el reloj vence también la de efectivo (72h)
+    now = hoursAgo(now, -60);
+    const later = await service.expireUnpaidOrders();
+
+    expect(later.expired.map((order) => order.orderId)).toContain(
+      'efectivo-en-plazo',
+    );
+  });
+
+  it('en dry-run no cancela nada', async () => {
+    orders.push({
+      id: 'vencida',
+      status: OrderStatus.PENDING_PAYMENT,
+      paymentMethod: PaymentMethod.ZELLE,
+      createdAt: hoursAgo(now, 30),
+    });
+
+    const result = await service.expireUnpaidOrders({ dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.expired).toHaveLength(1);
+    expect(result.expired[0].hoursUnpaid).toBe(30);
+    expect(expireOrder).not.toHaveBeenCalled();
+  });
+
+  it('omite las órdenes que cambiaron de estado mientras corría el job', async () => {
+    orders.push({
+      id: 'pagada-en-paralelo',
+      status: OrderStatus.PENDING_PAYMENT,
+      paymentMethod: PaymentMethod.TRANSFERENCIA,
+      createdAt: hoursAgo(now, 48),
+    });
+    expireOrder.mockRejectedValueOnce(
+      new ConflictException('La orden cambió de estado'),
+    );
+
+    const result = await service.expireUnpaidOrders();
+
+    expect(result.expired).toHaveLength(0);
+    expect(result.skipped).toEqual([
+      { orderId: 'pagada-en-paralelo', reason: 'La orden cambió de estado' },
+    ]);
+  });
+
+  it('permite configurar la ventana por método con variables de entorno', async () => {
+    process.env.ORDER_EXPIRATION_HOURS_EFECTIVO = '6';
+    orders.push({
+      id: 'efectivo',
+      status: OrderStatus.PENDING_PAYMENT,
+      paymentMethod: PaymentMethod.EFECTIVO,
+      createdAt: hoursAgo(now, 7),
+    });
+
+    try {
+      const result = await service.expireUnpaidOrders({ dryRun: true });
+
+      expect(result.expirationHours.EFECTIVO).toBe(6);
+      expect(result.expired).toHaveLength(1);
+    } finally {
+      delete process.env.ORDER_EXPIRATION_HOURS_EFECTIVO;
+    }
+  });
+});
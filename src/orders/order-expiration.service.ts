@@ -0,0 +1,164 @@
+import { Injectable, Inject, Logger, ConflictException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { OrderStatus, PaymentMethod, PaymentStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { OrdersService } from './orders.service';
+import { CLOCK, Clock } from '../common/interfaces/clock.interface';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Horas sin pago antes de cancelar, por método de pago
+ * Se pueden sobreescribir con ORDER_EXPIRATION_HOURS_<METODO>
+ * (ej: ORDER_EXPIRATION_HOURS_EFECTIVO=96)
+ */
+const DEFAULT_EXPIRATION_HOURS: Record<PaymentMethod, number> = {
+  [PaymentMethod.PAGO_MOVIL]: 12,
+  [PaymentMethod.TRANSFERENCIA]: 24,
+  [PaymentMethod.ZELLE]: 24,
+  [PaymentMethod.MERCADO_PAGO]: 24,
+  [PaymentMethod.EFECTIVO]: 72,
+  // Solo se elige si el saldo cubre todo: la orden nace pagada
+  [PaymentMethod.STORE_CREDIT]: 24,
+};
+
+export interface ExpireOrdersResult {
+  dryRun: boolean;
+  checkedAt: Date;
+  expirationHours: Record<PaymentMethod, number>;
+  expired: {
+    orderId: string;
+    paymentMethod: PaymentMethod;
+    createdAt: Date;
+    hoursUnpaid: number;
+  }[];
+  skipped: { orderId: string; reason: string }[];
+}
+
+/**
+ * Expiración de órdenes sin pago
+ * - Cancela las órdenes en PENDING_PAYMENT que superan su ventana de pago
+ * - Usa el mismo camino de cancelación (historial con actor SYSTEM + restock)
+ * - La hora viene de CLOCK para poder probarlo sin esperar ni usar el scheduler
+ */
+@Injectable()
+export class OrderExpirationService {
+  private readonly logger = new Logger(OrderExpirationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private ordersService: OrdersService,
+    @Inject(CLOCK) private clock: Clock,
+  ) {}
+
+  /**
+   * Job programado cada 10 minutos
+   * ORDER_EXPIRATION_DRY_RUN=true solo registra lo que cancelaría
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'order-expiration' })
+  async handleCron() {
+    const dryRun = process.env.ORDER_EXPIRATION_DRY_RUN === 'true';
+    const result = await this.expireUnpaidOrders({ dryRun });
+
+    if (result.expired.length > 0 || result.skipped.length > 0) {
+      this.logger.log(
+        `${dryRun ? '[dry-run] ' : ''}Órdenes expiradas: ${result.expired.length}, omitidas: ${result.skipped.length}`,
+      );
+    }
+  }
+
+  /**
+   * Buscar y cancelar órdenes vencidas
+   * Con dryRun solo retorna las que se cancelarían, sin modificar nada
+   */
+  async expireUnpaidOrders(
+    options: { dryRun?: boolean } = {},
+  ): Promise<ExpireOrdersResult> {
+    const dryRun = options.dryRun ?? false;
+    const now = this.clock.now();
+    const expirationHours = this.getExpirationHours();
+
+    const candidates = await this.prisma.order.findMany({
+      where: {
+        status: OrderStatus.PENDING_PAYMENT,
+        // Si ya reportó o se le verificó algún pago, la revisa un admin
+        // (el saldo a favor aplicado no cuenta: al expirar se le devuelve)
+        payments: {
+          none: {
+            status: {
+              in: [PaymentStatus.PENDING_REVIEW, PaymentStatus.VERIFIED],
+            },
+            method: { not: PaymentMethod.STORE_CREDIT },
+          },
+        },
+        OR: Object.values(PaymentMethod).map((paymentMethod) => ({
+          paymentMethod,
+          createdAt: {
+            lt: new Date(
+              now.getTime() - expirationHours[paymentMethod] * HOUR_MS,
+            ),
+          },
+        })),
+      },
+      select: { id: true, paymentMethod: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const result: ExpireOrdersResult = {
+      dryRun,
+      checkedAt: now,
+      expirationHours,
+      expired: [],
+      skipped: [],
+    };
+
+    for (const order of candidates) {
+      const hours = expirationHours[order.paymentMethod];
+      const expired = {
+        orderId: order.id,
+        paymentMethod: order.paymentMethod,
+        createdAt: order.createdAt,
+        hoursUnpaid: Math.floor(
+          (now.getTime() - order.createdAt.getTime()) / HOUR_MS,
+        ),
+      };
+
+      if (dryRun) {
+        result.expired.push(expired);
+        continue;
+      }
+
+      try {
+        await this.ordersService.expireOrder(
+          order.id,
+          `Cancelada automáticamente: sin pago después de ${hours} horas`,
+        );
+        result.expired.push(expired);
+      } catch (error) {
+        // Se pagó o canceló mientras corría el job: no es un error
+        if (error instanceof ConflictException) {
+          result.skipped.push({ orderId: order.id, reason: error.message });
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return result;
+  }
+
+  private getExpirationHours(): Record<PaymentMethod, number> {
+    const hours = { ...DEFAULT_EXPIRATION_HOURS };
+
+    for (const method of Object.values(PaymentMethod)) {
+      const raw = process.env[`ORDER_EXPIRATION_HOURS_${method}`];
+      const value = raw ? Number(raw) : NaN;
+
+      if (Number.isFinite(value) && value > 0) {
+        hours[method] = value;
+      }
+    }
+
+    return hours;
+  }
+}
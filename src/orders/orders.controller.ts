@@ -8,12 +8,26 @@ import {
   Query,
   UseGuards,
   Request,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Role } from '@prisma/client';
 import { OrdersService } from './orders.service';
+import { OrderExpirationService } from './order-expiration.service';
+import { PaymentsService } from './payments.service';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
 import { QueryOrdersDto } from './dto/query-orders.dto';
+import { CancelOrderDto } from './dto/cancel-order.dto';
+import { ExpireOrdersDto } from './dto/expire-orders.dto';
+import { CreatePaymentDto } from './dto/create-payment.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
 import { AuthRequest } from '../common/interfaces/auth-request.interface';
 
 /**
@@ -22,9 +36,13 @@ import { AuthRequest } from '../common/interfaces/auth-request.interface';
  * - Admins pueden ver todas y actualizar estados
  */
 @Controller('orders')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, RolesGuard)
 export class OrdersController {
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly orderExpirationService: OrderExpirationService,
+    private readonly paymentsService: PaymentsService,
+  ) {}
 
   /**
    * POST /orders
@@ -58,11 +76,41 @@ export class OrdersController {
    * Con filtros y paginación
    */
   @Get('all')
-  async getAllOrders(
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+  async getAllOrders(@Query() query: QueryOrdersDto) {
+    return this.ordersService.getAllOrders(query);
+  }
+
+  /**
+   * POST /orders/expire-unpaid
+   * Ejecutar ahora la expiración de órdenes sin pago (solo ADMIN/SUPER_ADMIN)
+   * - dryRun: true solo lista las que se cancelarían
+   */
+  @Post('expire-unpaid')
+  @HttpCode(HttpStatus.OK)
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+  async expireUnpaidOrders(@Body() dto: ExpireOrdersDto) {
+    return this.orderExpirationService.expireUnpaidOrders({
+      dryRun: dto.dryRun,
+    });
+  }
+
+  /**
+   * GET /orders/by-number/:number
+   * Obtener una orden por su número (ej: DLC-000123)
+   * - Usuario solo puede ver sus propias órdenes
+   * - Admin puede ver cualquier orden
+   */
+  @Get('by-number/:number')
+  async getOrderByNumber(
     @Request() req: AuthRequest,
-    @Query() query: QueryOrdersDto,
+    @Param('number') orderNumber: string,
   ) {
-    return this.ordersService.getAllOrders(query, req.user.role);
+    return this.ordersService.getOrderByNumber(
+      orderNumber,
+      req.user.id,
+      req.user.role,
+    );
   }
 
   /**
@@ -79,18 +127,79 @@ export class OrdersController {
     return this.ordersService.getOrderById(orderId, req.user.id, req.user.role);
   }
 
+  /**
+   * GET /orders/:id/history
+   * Historial de cambios de estado de una orden
+   * - Usuario solo puede ver el de sus propias órdenes
+   * - Admin ve además quién hizo cada cambio
+   */
+  @Get(':id/history')
+  async getOrderHistory(
+    @Request() req: AuthRequest,
+    @Param('id') orderId: string,
+  ) {
+    return this.ordersService.getOrderHistory(
+      orderId,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  /**
+   * POST /orders/:id/cancel
+   * Cancelar una orden propia mientras esté pendiente de pago
+   * - Devuelve el stock y registra el motivo en el historial
+   */
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancelOrder(
+    @Request() req: AuthRequest,
+    @Param('id') orderId: string,
+    @Body() dto: CancelOrderDto,
+  ) {
+    return this.ordersService.cancelOrder(orderId, req.user.id, dto);
+  }
+
+  /**
+   * POST /orders/:id/payments
+   * Reportar un pago con comprobante (multipart: file + method, amount, currency,
+   * reference, bank, payerName)
+   * - Los pagos en Bs se convierten con la tasa guardada en la orden
+   * - Solo el dueño y mientras la orden esté pendiente de pago
+   * - Una orden puede tener varios pagos (ej: parte en Zelle y parte en Bs)
+   * - La imagen se guarda en una carpeta privada
+   * - POST /orders/:id/payment-proof se mantiene como alias para los clientes
+   *   que ya lo usan
+   */
+  @Post([':id/payments', ':id/payment-proof'])
+  @UseInterceptors(FileInterceptor('file'))
+  async submitPayment(
+    @Request() req: AuthRequest,
+    @Param('id') orderId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: CreatePaymentDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No se proporcionó ningún archivo');
+    }
+    return this.paymentsService.submit(orderId, req.user.id, file, dto);
+  }
+
   /**
    * PATCH /orders/:id/status
    * Actualizar estado de una orden (solo ADMIN/SUPER_ADMIN)
-   * - Actualiza timestamps según el nuevo estado
+   * - Solo transiciones válidas (409 con los estados permitidos si no)
+   * - Registra el cambio en el historial
    * - Puede agregar notas de administrador
+   * - EN_CAMINO exige carrier y trackingNumber
    */
   @Patch(':id/status')
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
   async updateOrderStatus(
     @Request() req: AuthRequest,
     @Param('id') orderId: string,
     @Body() dto: UpdateOrderStatusDto,
   ) {
-    return this.ordersService.updateOrderStatus(orderId, dto, req.user.role);
+    return this.ordersService.updateOrderStatus(orderId, dto, req.user.id);
   }
 }
@@ -1,12 +1,34 @@
 import { Module } from '@nestjs/common';
 import { OrdersService } from './orders.service';
 import { OrdersController } from './orders.controller';
+import { OrderExpirationService } from './order-expiration.service';
+import { PaymentsService } from './payments.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { UploadModule } from '../upload/upload.module';
+import { MailModule } from '../mail/mail.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
+import { TaxesModule } from '../taxes/taxes.module';
+import { ShippingModule } from '../shipping/shipping.module';
+import { StoreCreditModule } from '../store-credit/store-credit.module';
+import { CLOCK, systemClock } from '../common/interfaces/clock.interface';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [
+    PrismaModule,
+    UploadModule,
+    MailModule,
+    ExchangeRatesModule,
+    TaxesModule,
+    ShippingModule,
+    StoreCreditModule,
+  ],
   controllers: [OrdersController],
-  providers: [OrdersService],
-  exports: [OrdersService],
+  providers: [
+    OrdersService,
+    OrderExpirationService,
+    PaymentsService,
+    { provide: CLOCK, useValue: systemClock },
+  ],
+  exports: [OrdersService, PaymentsService],
 })
 export class OrdersModule {}
@@ -0,0 +1,512 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { PaymentMethod, Prisma } from '@prisma/client';
+import { OrdersService } from './orders.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { TaxesService } from '../taxes/taxes.service';
+import { ShippingService } from '../shipping/shipping.service';
+import { StoreCreditService } from '../store-credit/store-credit.service';
+import {
+  UndoLog,
+  createFakePrisma,
+  insertUndoable,
+  tick,
+} from '../common/testing/fake-prisma';
+
+type Variant = {
+  id: string;
+  stock: number;
+  isActive: boolean;
+  autoDeactivatedAt: Date | null;
+  price: number;
+  size: string;
+  color: string;
+  gender: string;
+  productId: string;
+};
+
+type CartItem = {
+  id: string;
+  cartId: string;
+  variantId: string;
+  quantity: number;
+};
+
+/**
+ * Tablas en memoria con lo mínimo que usa createOrder
+ * - Cada operación cede el event loop para que las compras se intercalen
+ * - updateMany evalúa el where y aplica el cambio de forma atómica,
+ *   como lo hace el UPDATE ... WHERE stock >= n en PostgreSQL
+ */
+function createStore() {
+  const product = {
+    id: 'product-1',
+    name: 'Franela Drop',
+    isActive: true,
+    category: { taxExempt: false },
+  };
+  const variants = new Map<string, Variant>();
+  const carts = new Map<string, { id: string; userId: string }>();
+  const cartItems = new Map<string, CartItem>();
+  const orders: {
+    id: string;
+    userId: string;
+    orderNumber: string;
+    addressState: string;
+    addressLine: string;
+    total: Prisma.Decimal;
+    igtfRate: Prisma.Decimal;
+  }[] = [];
+  const counters = new Map<string, number>();
+  const balances = new Map<string, Prisma.Decimal>();
+  const payments: {
+    orderId: string;
+    method: PaymentMethod;
+    amountUsd: Prisma.Decimal;
+  }[] = [];
+  const storeCreditEntries: {
+    userId: string;
+    amount: Prisma.Decimal;
+    balanceAfter: Prisma.Decimal;
+  }[] = [];
+
+  const matchesVariant = (
+    variant: Variant,
+    where: { id: string; isActive?: boolean; stock?: number | { gte: number } },
+  ) =>
+    variant.id === where.id &&
+    (where.isActive === undefined || variant.isActive === where.isActive) &&
+    (where.stock === undefined ||
+      (typeof where.stock === 'number'
+        ? variant.stock === where.stock
+        : variant.stock >= where.stock.gte));
+
+  const createClient = (undo: UndoLog) => ({
+    user: {
+      findUniqueOrThrow: async ({ where }: { where: { id: string } }) => {
+        await tick();
+        return {
+          storeCreditBalance: balances.get(where.id) ?? new Prisma.Decimal(0),
+        };
+      },
+      // Consumo condicional, como el UPDATE ... WHERE balance >= monto
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { id: string; storeCreditBalance: { gte: Prisma.Decimal } };
+        data: { storeCreditBalance: { decrement: Prisma.Decimal } };
+      }) => {
+        await tick();
+        const balance = balances.get(where.id) ?? new Prisma.Decimal(0);
+        if (balance.lt(where.storeCreditBalance.gte)) {
+          return { count: 0 };
+        }
+        balances.set(where.id, balance.sub(data.storeCreditBalance.decrement));
+        undo.push(() => balances.set(where.id, balance));
+        return { count: 1 };
+      },
+    },
+    storeCreditEntry: {
+      create: async ({
+        data,
+      }: {
+        data: {
+          userId: string;
+          amount: Prisma.Decimal;
+          balanceAfter: Prisma.Decimal;
+        };
+      }) => {
+        await tick();
+        return insertUndoable(storeCreditEntries, { ...data }, undo);
+      },
+    },
+    payment: {
+      create: async ({
+        data,
+      }: {
+        data: {
+          orderId: string;
+          method: PaymentMethod;
+          amountUsd: Prisma.Decimal;
+        };
+      }) => {
+        await tick();
+        return insertUndoable(payments, { ...data }, undo);
+      },
+    },
+    cart: {
+      findUnique: async ({ where }: { where: { userId: string } }) => {
+        await tick();
+        const cart = [...carts.values()].find((c) => c.userId === where.userId);
+        if (!cart) return null;
+        return {
+          ...cart,
+          items: [...cartItems.values()]
+            .filter((item) => item.cartId === cart.id)
+            .map((item) => ({
+              ...item,
+              variant: { ...variants.get(item.variantId), product },
+            })),
+        };
+      },
+    },
+    address: {
+      findFirst: async () => {
+        await tick();
+        return {
+          id: 'address-1',
+          fullName: 'Ana Pérez',
+          phone: '04141234567',
+          state: 'Zulia',
+          city: 'Maracaibo',
+          municipality: 'Maracaibo',
+          address: 'Av. 5 de Julio, edificio Sol, piso 3',
+          reference: null,
+        };
+      },
+    },
+    cartItem: {
+      deleteMany: async ({ where }: { where: { id: { in: string[] } } }) => {
+        await tick();
+        let count = 0;
+        for (const id of where.id.in) {
+          const item = cartItems.get(id);
+          if (item) {
+            cartItems.delete(id);
+            undo.push(() => cartItems.set(id, item));
+            count++;
+          }
+        }
+        return { count };
+      },
+    },
+    productVariant: {
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        await tick();
+        const variant = variants.get(where.id);
+        return variant ? { ...variant } : null;
+      },
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: {
+          id: string;
+          isActive?: boolean;
+          stock?: number | { gte: number };
+        };
+        data: {
+          stock?: { decrement: number };
+          isActive?: boolean;
+          autoDeactivatedAt?: Date;
+        };
+      }) => {
+        await tick();
+        const variant = variants.get(where.id);
+        if (!variant || !matchesVariant(variant, where)) {
+          return { count: 0 };
+        }
+        const previous = { ...variant };
+        undo.push(() => variants.set(variant.id, previous));
+        if (data.stock) variant.stock -= data.stock.decrement;
+        if (data.isActive !== undefined) variant.isActive = data.isActive;
+        if (data.autoDeactivatedAt) {
+          variant.autoDeactivatedAt = data.autoDeactivatedAt;
+        }
+        return { count: 1 };
+      },
+    },
+    counter: {
+      upsert: async ({ where }: { where: { name: string } }) => {
+        await tick();
+        const previous = counters.get(where.name);
+        const value = (previous ?? 0) + 1;
+        counters.set(where.name, value);
+        undo.push(() =>
+          previous === undefined
+            ? counters.delete(where.name)
+            : counters.set(where.name, previous),
+        );
+        return { name: where.name, value };
+      },
+    },
+    order: {
+      create: async ({
+        data,
+      }: {
+        data: {
+          userId: string;
+          orderNumber: string;
+          addressState: string;
+          addressLine: string;
+          total: Prisma.Decimal;
+          igtfRate: Prisma.Decimal;
+        };
+      }) => {
+        await tick();
+        return insertUndoable(
+          orders,
+          {
+            id: `order-${orders.length + 1}`,
+            userId: data.userId,
+            orderNumber: data.orderNumber,
+            addressState: data.addressState,
+            addressLine: data.addressLine,
+            total: data.total,
+            igtfRate: data.igtfRate,
+          },
+          undo,
+        );
+      },
+    },
+  });
+
+  const prisma = createFakePrisma(createClient);
+
+  const addVariant = (id: string, stock: number) =>
+    variants.set(id, {
+      id,
+      stock,
+      isActive: stock > 0,
+      autoDeactivatedAt: null,
+      price: 25,
+      size: 'M',
+      color: 'Negro',
+      gender: 'UNISEX',
+      productId: product.id,
+    });
+
+  const addToCart = (userId: string, variantId: string, quantity: number) => {
+    const cartId = `cart-${userId}`;
+    carts.set(cartId, { id: cartId, userId });
+    const id = `${cartId}-${variantId}`;
+    cartItems.set(id, { id, cartId, variantId, quantity });
+  };
+
+  return {
+    prisma,
+    variants,
+    cartItems,
+    orders,
+    balances,
+    payments,
+    storeCreditEntries,
+    addVariant,
+    addToCart,
+  };
+}
+
+describe('OrdersService', () => {
+  let service: OrdersService;
+  let storeCreditService: StoreCreditService;
+  let fake: ReturnType<typeof createStore>;
+
+  const dto = {
+    addressId: 'address-1',
+    shippingMethodId: 'shipping-1',
+    paymentMethod: PaymentMethod.PAGO_MOVIL,
+  };
+
+  beforeEach(async () => {
+    fake = createStore();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrdersService,
+        { provide: PrismaService, useValue: fake.prisma },
+        {
+          provide: ShippingService,
+          useValue: {
+            quote: () =>
+              Promise.resolve({
+                method: { id: 'shipping-1' },
+                fee: new Prisma.Decimal(0),
+              }),
+          },
+        },
+        {
+          provide: TaxesService,
+          useValue: {
+            getRates: () =>
+              Promise.resolve({
+                iva: new Prisma.Decimal('0.16'),
+                igtf: new Prisma.Decimal('0.03'),
+              }),
+          },
+        },
+        StoreCreditService,
+        {
+          provide: ExchangeRatesService,
+          useValue: {
+            getCurrent: () =>
+              Promise.resolve({ rate: new Prisma.Decimal('36.5') }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrdersService>(OrdersService);
+    storeCreditService = module.get<StoreCreditService>(StoreCreditService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  // Pruebas unitarias sobre Prisma en memoria: comprueban que createOrder
+  // descuente con updates condicionales dentro de una transacción. El
+  // bloqueo de filas y el aislamiento de PostgreSQL no se prueban aquí
+  describe('createOrder (unitarias)', () => {
+    it('descuenta stock de forma condicional: compras simultáneas no sobrevenden', async () => {
+      fake.addVariant('variant-drop', 3);
+      const buyers = Array.from({ length: 10 }, (_, i) => `user-${i}`);
+      buyers.forEach((userId) => fake.addToCart(userId, 'variant-drop', 1));
+
+      const results = await Promise.allSettled(
+        buyers.map((userId) => service.createOrder(userId, dto)),
+      );
+
+      const fulfilled = results.filter((r) => r.status === 'fulfilled');
+      const rejected = results.filter(
+        (r): r is PromiseRejectedResult => r.status === 'rejected',
+      );
+
+      expect(fulfilled).toHaveLength(3);
+      expect(rejected).toHaveLength(7);
+      rejected.forEach((r) =>
+        expect(r.reason).toBeInstanceOf(BadRequestException),
+      );
+
+      const variant = fake.variants.get('variant-drop');
+      expect(variant.stock).toBe(0);
+      expect(variant.isActive).toBe(false);
+      expect(variant.autoDeactivatedAt).toBeInstanceOf(Date);
+      expect(fake.orders).toHaveLength(3);
+    });
+
+    it('revierte el stock y el carrito si una variante no alcanza', async () => {
+      fake.addVariant('variant-a', 5);
+      fake.addVariant('variant-b', 1);
+      fake.addToCart('user-1', 'variant-a', 1);
+      fake.addToCart('user-1', 'variant-b', 2);
+
+      await expect(service.createOrder('user-1', dto)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+
+      expect(fake.variants.get('variant-a').stock).toBe(5);
+      expect(fake.variants.get('variant-b').stock).toBe(1);
+      expect(fake.cartItems.size).toBe(2);
+      expect(fake.orders).toHaveLength(0);
+    });
+
+    it('crea una sola orden si el mismo carrito se envía dos veces', async () => {
+      fake.addVariant('variant-a', 10);
+      fake.addToCart('user-1', 'variant-a', 2);
+
+      const results = await Promise.allSettled([
+        service.createOrder('user-1', dto),
+        service.createOrder('user-1', dto),
+      ]);
+
+      const rejected = results.filter(
+        (r): r is PromiseRejectedResult => r.status === 'rejected',
+      );
+
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0].reason).toBeInstanceOf(ConflictException);
+      expect(fake.orders).toHaveLength(1);
+      expect(fake.variants.get('variant-a').stock).toBe(8);
+    });
+
+    it('numera las órdenes sin saltos aunque algunas compras fallen', async () => {
+      fake.addVariant('variant-drop', 3);
+      const buyers = Array.from({ length: 6 }, (_, i) => `user-${i}`);
+      buyers.forEach((userId) => fake.addToCart(userId, 'variant-drop', 1));
+
+      await Promise.allSettled(
+        buyers.map((userId) => service.createOrder(userId, dto)),
+      );
+
+      expect(fake.orders.map((order) => order.orderNumber).sort()).toEqual([
+        'DLC-000001',
+        'DLC-000002',
+        'DLC-000003',
+      ]);
+    });
+
+    it('guarda una copia de la dirección de entrega en la orden', async () => {
+      fake.addVariant('variant-address', 1);
+      fake.addToCart('user-1', 'variant-address', 1);
+
+      await service.createOrder('user-1', dto);
+
+      expect(fake.orders[0]).toMatchObject({
+        addressState: 'Zulia',
+        addressLine: 'Av. 5 de Julio, edificio Sol, piso 3',
+      });
+    });
+
+    it('el total no lleva IGTF: se cobra en cada pago en divisas', async () => {
+      fake.addVariant('variant-a', 5);
+      fake.addToCart('user-1', 'variant-a', 2);
+      fake.balances.set('user-1', new Prisma.Decimal(20));
+
+      await service.createOrder('user-1', {
+        ...dto,
+        paymentMethod: PaymentMethod.ZELLE,
+        useStoreCredit: true,
+      });
+
+      // 50 + 8 de IVA = 58; el IGTF (3%) se suma con cada pago por Zelle
+      expect(fake.orders[0].total.toFixed(2)).toBe('58.00');
+      expect(fake.orders[0].igtfRate.toFixed(2)).toBe('0.03');
+      expect(fake.payments).toEqual([
+        expect.objectContaining({ method: PaymentMethod.STORE_CREDIT }),
+      ]);
+      expect(fake.payments[0].amountUsd.toFixed(2)).toBe('20.00');
+      expect(fake.balances.get('user-1').toFixed(2)).toBe('0.00');
+      expect(fake.storeCreditEntries[0].balanceAfter.toFixed(2)).toBe('0.00');
+    });
+
+    it('rechaza STORE_CREDIT si el saldo no cubre el total', async () => {
+      fake.addVariant('variant-a', 5);
+      fake.addToCart('user-1', 'variant-a', 1);
+      fake.balances.set('user-1', new Prisma.Decimal(10));
+
+      await expect(
+        service.createOrder('user-1', {
+          ...dto,
+          paymentMethod: PaymentMethod.STORE_CREDIT,
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+
+      expect(fake.variants.get('variant-a').stock).toBe(5);
+      expect(fake.balances.get('user-1').toFixed(2)).toBe('10.00');
+      expect(fake.orders).toHaveLength(0);
+    });
+
+    it('revierte la orden si el saldo a favor se consumió en paralelo', async () => {
+      fake.addVariant('variant-a', 5);
+      fake.addToCart('user-1', 'variant-a', 1);
+      fake.balances.set('user-1', new Prisma.Decimal(10));
+      jest
+        .spyOn(storeCreditService, 'debit')
+        .mockRejectedValueOnce(
+          new BadRequestException('Saldo a favor insuficiente'),
+        );
+
+      await expect(
+        service.createOrder('user-1', { ...dto, useStoreCredit: true }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+
+      expect(fake.variants.get('variant-a').stock).toBe(5);
+      expect(fake.cartItems.size).toBe(1);
+      expect(fake.orders).toHaveLength(0);
+      expect(fake.payments).toHaveLength(0);
+      expect(fake.balances.get('user-1').toFixed(2)).toBe('10.00');
+    });
+  });
+});
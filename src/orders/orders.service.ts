@@ -3,12 +3,62 @@ import {
   NotFoundException,
   BadRequestException,
   ForbiddenException,
+  ConflictException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
 import { QueryOrdersDto } from './dto/query-orders.dto';
-import { OrderStatus, Role } from '@prisma/client';
+import { CancelOrderDto } from './dto/cancel-order.dto';
+import {
+  Currency,
+  OrderActorType,
+  OrderStatus,
+  PaymentMethod,
+  PaymentStatus,
+  Prisma,
+  Refund,
+  RefundStatus,
+  Role,
+  ShippingCarrier,
+  StoreCreditEntryType,
+} from '@prisma/client';
+import { ORDER_STATUS_TRANSITIONS } from './constants/order.constants';
+import { summarizePayments } from './utils/payment-summary.util';
+import {
+  formatOrderNumber,
+  normalizeOrderNumber,
+} from './utils/order-number.util';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { toVes } from '../exchange-rates/utils/currency.util';
+import { TaxesService } from '../taxes/taxes.service';
+import { ShippingService } from '../shipping/shipping.service';
+import { calculateWeightGrams } from '../shipping/utils/delivery-fee.util';
+import { StoreCreditService } from '../store-credit/store-credit.service';
+import {
+  TaxRates,
+  calculateTaxes,
+  resolvePaymentCurrency,
+} from '../taxes/utils/tax-calculator.util';
+
+const ORDER_TRANSACTION_TIMEOUT_MS = 10_000;
+const ORDER_NUMBER_COUNTER = 'order';
+
+interface TransitionOptions {
+  actorType: OrderActorType;
+  actorId: string | null;
+  notes?: string;
+  adminNotes?: string;
+  cancellationReason?: string;
+  allowedFrom?: OrderStatus[];
+  /**
+   * Rechazar la cancelación si hay pagos reportados o verificados
+   * (cliente y expiración: esos casos los resuelve un admin)
+   */
+  rejectIfPaymentsReported?: boolean;
+  /** Guía de envío, obligatoria al pasar a EN_CAMINO */
+  tracking?: { carrier: ShippingCarrier; trackingNumber: string };
+}
 
 /**
  * Servicio para gestionar órdenes de compra
@@ -19,26 +69,66 @@ import { OrderStatus, Role } from '@prisma/client';
  */
 @Injectable()
 export class OrdersService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private exchangeRatesService: ExchangeRatesService,
+    private taxesService: TaxesService,
+    private shippingService: ShippingService,
+    private storeCreditService: StoreCreditService,
+  ) {}
 
   /**
    * Crear una nueva orden desde el carrito del usuario
    * - Valida que el carrito tenga items
    * - Valida que la dirección pertenezca al usuario
    * - Crea snapshots de productos (precio, nombre al momento de compra)
-   * - Calcula totales
+   * - Calcula IVA con las alícuotas vigentes y fija la tasa de cambio y la
+   *   del IGTF (los montos guardados no cambian aunque cambien las tasas)
+   * - El total no lleva IGTF: se cobra en cada pago en divisas
+   * - Con useStoreCredit aplica el saldo a favor como pago verificado
    * - Vacía el carrito
+   *
+   * Todo ocurre en una transacción interactiva: si algo falla no queda
+   * una orden sin descontar stock ni stock descontado sin orden.
    */
   async createOrder(userId: string, dto: CreateOrderDto) {
+    const [exchangeRate, taxRates] = await Promise.all([
+      this.exchangeRatesService.getCurrent(),
+      this.taxesService.getRates(),
+    ]);
+
+    return this.prisma.$transaction(
+      (tx) =>
+        this.createOrderInTransaction(tx, userId, dto, {
+          exchangeRate: exchangeRate.rate,
+          taxRates,
+        }),
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.ReadCommitted,
+        timeout: ORDER_TRANSACTION_TIMEOUT_MS,
+      },
+    );
+  }
+
+  private async createOrderInTransaction(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    dto: CreateOrderDto,
+    pricing: { exchangeRate: Prisma.Decimal; taxRates: TaxRates },
+  ) {
     // 1. Obtener carrito del usuario con items
-    const cart = await this.prisma.cart.findUnique({
+    const cart = await tx.cart.findUnique({
       where: { userId },
       include: {
         items: {
           include: {
             variant: {
               include: {
-                product: true,
+                product: {
+                  include: {
+                    category: { select: { taxExempt: true } },
+                  },
+                },
               },
             },
           },
@@ -51,7 +141,7 @@ export class OrdersService {
     }
 
     // 2. Validar que la dirección pertenece al usuario
-    const address = await this.prisma.address.findFirst({
+    const address = await tx.address.findFirst({
       where: {
         id: dto.addressId,
         userId,
@@ -65,43 +155,170 @@ export class OrdersService {
       );
     }
 
-    // 3. Calcular totales y validar stock
-    let subtotal = 0;
-
+    // 3. Validar que los productos sigan activos y calcular totales
     for (const item of cart.items) {
-      // Validar que el producto y variante sigan activos
       if (!item.variant.isActive || !item.variant.product.isActive) {
         throw new BadRequestException(
           `El producto ${item.variant.product.name} ya no está disponible`,
         );
       }
+    }
+
+    // Envío según la zona de la dirección y el peso del paquete (se recalcula
+    // aquí aunque el cliente haya cotizado antes) e IVA por línea
+    const shipping = await this.shippingService.quote(
+      dto.shippingMethodId,
+      address,
+      calculateWeightGrams(
+        cart.items.map((item) => ({
+          quantity: item.quantity,
+          weightGrams: item.variant.weightGrams,
+        })),
+      ),
+      tx,
+    );
+    const lines = cart.items.map((item) => ({
+      price: item.variant.price,
+      quantity: item.quantity,
+      taxExempt: item.variant.product.category.taxExempt,
+    }));
+
+    const taxes = calculateTaxes(
+      lines,
+      pricing.taxRates,
+      undefined,
+      shipping.fee,
+    );
+
+    // Saldo a favor: cubre hasta el total; el resto se paga con paymentMethod
+    let storeCredit = new Prisma.Decimal(0);
+
+    if (
+      dto.useStoreCredit ||
+      dto.paymentMethod === PaymentMethod.STORE_CREDIT
+    ) {
+      const user = await tx.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { storeCreditBalance: true },
+      });
+
+      storeCredit = Prisma.Decimal.min(user.storeCreditBalance, taxes.total);
+    }
+
+    if (
+      dto.paymentMethod === PaymentMethod.STORE_CREDIT &&
+      storeCredit.lt(taxes.total)
+    ) {
+      throw new BadRequestException(
+        `Tu saldo a favor no cubre el total de la orden (${taxes.total.toFixed(2)} USD). Elige otro método de pago para el resto`,
+      );
+    }
+
+    // 4. Reclamar el carrito: si otra petición del mismo usuario ya lo
+    // vació (doble click en "comprar"), esta no borra nada y se aborta
+    const { count: claimedItems } = await tx.cartItem.deleteMany({
+      where: { id: { in: cart.items.map((item) => item.id) } },
+    });
+
+    if (claimedItems !== cart.items.length) {
+      throw new ConflictException(
+        'El carrito cambió mientras se procesaba la orden. Intenta de nuevo',
+      );
+    }
+
+    // 5. Descontar stock de forma condicional (stock >= cantidad)
+    // El UPDATE bloquea la fila: compras simultáneas de la misma variante
+    // esperan su turno y vuelven a evaluar el stock ya descontado.
+    // Se ordena por variantId para bloquear siempre en el mismo orden
+    // y evitar deadlocks entre carritos con varias variantes.
+    const itemsByVariant = [...cart.items].sort((a, b) =>
+      a.variantId.localeCompare(b.variantId),
+    );
+
+    for (const item of itemsByVariant) {
+      const { count } = await tx.productVariant.updateMany({
+        where: {
+          id: item.variantId,
+          isActive: true,
+          stock: { gte: item.quantity },
+        },
+        data: {
+          stock: {
+            decrement: item.quantity,
+          },
+        },
+      });
+
+      if (count === 0) {
+        const current = await tx.productVariant.findUnique({
+          where: { id: item.variantId },
+          select: { stock: true, isActive: true },
+        });
 
-      // Validar stock disponible
-      if (item.variant.stock < item.quantity) {
         throw new BadRequestException(
-          `Stock insuficiente para ${item.variant.product.name}. Disponible: ${item.variant.stock}`,
+          current?.isActive
+            ? `Stock insuficiente para ${item.variant.product.name}. Disponible: ${current.stock}`
+            : `El producto ${item.variant.product.name} ya no está disponible`,
         );
       }
 
-      const itemSubtotal = Number(item.variant.price) * item.quantity;
-      subtotal += itemSubtotal;
+      // Si el stock llega a 0, desactivar la variante
+      // autoDeactivatedAt la hace visible en las alertas de inventario
+      await tx.productVariant.updateMany({
+        where: { id: item.variantId, stock: 0, isActive: true },
+        data: { isActive: false, autoDeactivatedAt: new Date() },
+      });
     }
 
-    const total = subtotal; // Sin envío, se acuerda por WhatsApp
+    // 6. Tomar el siguiente número de orden
+    // El UPDATE del contador bloquea la fila hasta el commit: las compras
+    // simultáneas toman números consecutivos y, si la transacción falla,
+    // el incremento se deshace y el número no se pierde
+    const counter = await tx.counter.upsert({
+      where: { name: ORDER_NUMBER_COUNTER },
+      create: { name: ORDER_NUMBER_COUNTER, value: 1 },
+      update: { value: { increment: 1 } },
+    });
 
-    // 4. Crear la orden con snapshots de productos
-    const order = await this.prisma.order.create({
+    // 7. Crear la orden con snapshots de productos y dirección
+    const order = await tx.order.create({
       data: {
         userId,
+        orderNumber: formatOrderNumber(counter.value),
         addressId: dto.addressId,
-        subtotal,
-        total,
+        addressFullName: address.fullName,
+        addressPhone: address.phone,
+        addressState: address.state,
+        addressCity: address.city,
+        addressMunicipality: address.municipality,
+        addressLine: address.address,
+        addressReference: address.reference,
+        subtotal: taxes.subtotal,
+        ivaRate: taxes.ivaRate,
+        taxIva: taxes.iva,
+        shippingMethodId: shipping.method.id,
+        shippingCost: taxes.shippingCost,
+        igtfRate: pricing.taxRates.igtf,
+        total: taxes.total,
+        exchangeRate: pricing.exchangeRate,
+        totalVes: toVes(taxes.total, pricing.exchangeRate),
         status: OrderStatus.PENDING_PAYMENT,
         paymentMethod: dto.paymentMethod,
+        paymentCurrency: resolvePaymentCurrency(
+          dto.paymentMethod,
+          dto.paymentCurrency,
+        ),
         customerNotes: dto.customerNotes,
+        statusHistory: {
+          create: {
+            toStatus: OrderStatus.PENDING_PAYMENT,
+            actorType: OrderActorType.CUSTOMER,
+            actorId: userId,
+          },
+        },
         // Crear OrderItems con snapshots
         items: {
-          create: cart.items.map((item) => ({
+          create: cart.items.map((item, index) => ({
             variantId: item.variantId,
             productName: item.variant.product.name,
             variantSize: item.variant.size,
@@ -109,7 +326,9 @@ export class OrdersService {
             variantGender: item.variant.gender,
             price: item.variant.price,
             quantity: item.quantity,
-            subtotal: Number(item.variant.price) * item.quantity,
+            subtotal: taxes.lines[index].subtotal,
+            taxRate: taxes.lines[index].taxRate,
+            taxAmount: taxes.lines[index].taxAmount,
           })),
         },
       },
@@ -119,7 +338,6 @@ export class OrdersService {
             variant: true,
           },
         },
-        address: true,
         user: {
           select: {
             id: true,
@@ -131,36 +349,43 @@ export class OrdersService {
       },
     });
 
-    // 5. Reducir stock de las variantes
-    for (const item of cart.items) {
-      await this.prisma.productVariant.update({
-        where: { id: item.variantId },
-        data: {
-          stock: {
-            decrement: item.quantity,
-          },
-        },
-      });
-
-      // Si el stock llega a 0, desactivar la variante
-      const updatedVariant = await this.prisma.productVariant.findUnique({
-        where: { id: item.variantId },
-      });
-
-      if (updatedVariant && updatedVariant.stock === 0) {
-        await this.prisma.productVariant.update({
-          where: { id: item.variantId },
-          data: { isActive: false },
-        });
-      }
+    if (storeCredit.isZero()) {
+      return order;
     }
 
-    // 6. Vaciar el carrito (hard delete de items)
-    await this.prisma.cartItem.deleteMany({
-      where: { cartId: cart.id },
+    // 8. Consumir el saldo a favor (condicional: si otra compra lo usó
+    // primero, se aborta todo) y registrarlo como pago ya verificado
+    await this.storeCreditService.debit(tx, userId, storeCredit, {
+      type: StoreCreditEntryType.ORDER_PAYMENT,
+      orderId: order.id,
+    });
+
+    await tx.payment.create({
+      data: {
+        orderId: order.id,
+        method: PaymentMethod.STORE_CREDIT,
+        amount: storeCredit,
+        currency: Currency.USD,
+        amountUsd: storeCredit,
+        status: PaymentStatus.VERIFIED,
+        verifiedAt: new Date(),
+      },
     });
 
-    return order;
+    if (storeCredit.lt(order.total)) {
+      return order;
+    }
+
+    return this.transitionOrderInTransaction(
+      tx,
+      order.id,
+      OrderStatus.PAGO_CONFIRMADO,
+      {
+        actorType: OrderActorType.SYSTEM,
+        actorId: null,
+        notes: 'Pagada con saldo a favor',
+      },
+    );
   }
 
   /**
@@ -191,7 +416,6 @@ export class OrdersService {
               variant: true,
             },
           },
-          address: true,
         },
       }),
       this.prisma.order.count({ where }),
@@ -208,6 +432,23 @@ export class OrdersService {
     };
   }
 
+  /**
+   * Obtener una orden por su número (ej: DLC-000123 o 123)
+   * Mismas reglas de acceso que getOrderById
+   */
+  async getOrderByNumber(orderNumber: string, userId: string, userRole: Role) {
+    const order = await this.prisma.order.findUnique({
+      where: { orderNumber: normalizeOrderNumber(orderNumber) },
+      select: { id: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Orden no encontrada');
+    }
+
+    return this.getOrderById(order.id, userId, userRole);
+  }
+
   /**
    * Obtener una orden específica
    * Solo el dueño o ADMIN puede verla
@@ -225,7 +466,6 @@ export class OrdersService {
             },
           },
         },
-        address: true,
         user: {
           select: {
             id: true,
@@ -234,6 +474,20 @@ export class OrdersService {
             phone: true,
           },
         },
+        payments: {
+          orderBy: { createdAt: 'asc' },
+        },
+        refunds: {
+          orderBy: { createdAt: 'asc' },
+        },
+        shippingMethod: {
+          select: {
+            id: true,
+            name: true,
+            carrier: true,
+            estimatedDelivery: true,
+          },
+        },
       },
     });
 
@@ -246,72 +500,421 @@ export class OrdersService {
       throw new ForbiddenException('No tienes permiso para ver esta orden');
     }
 
-    return order;
+    // Montos en Bs con la tasa fijada al comprar (órdenes antiguas no la tienen)
+    const { exchangeRate } = order;
+
+    return {
+      ...order,
+      items: order.items.map((item) => ({
+        ...item,
+        priceVes: exchangeRate ? toVes(item.price, exchangeRate) : null,
+        subtotalVes: exchangeRate ? toVes(item.subtotal, exchangeRate) : null,
+      })),
+      paymentSummary: summarizePayments(order.total, order.payments),
+      tracking: order.trackingNumber
+        ? {
+            carrier: order.shippingCarrier,
+            trackingNumber: order.trackingNumber,
+            shippedAt: order.shippedAt,
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Historial de estados de una orden
+   * Solo el dueño o ADMIN puede verlo; el cliente no ve qué admin hizo el cambio
+   */
+  async getOrderHistory(orderId: string, userId: string, userRole: Role) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, userId: true, status: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Orden no encontrada');
+    }
+
+    if (order.userId !== userId && userRole === Role.USER) {
+      throw new ForbiddenException('No tienes permiso para ver esta orden');
+    }
+
+    const isAdmin = userRole !== Role.USER;
+
+    const history = await this.prisma.orderStatusHistory.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        actor: isAdmin
+          ? { select: { id: true, name: true, email: true } }
+          : false,
+      },
+    });
+
+    return {
+      orderId: order.id,
+      status: order.status,
+      allowedNextStatuses: isAdmin
+        ? ORDER_STATUS_TRANSITIONS[order.status]
+        : undefined,
+      history: history.map(({ actorId, ...entry }) =>
+        isAdmin ? { actorId, ...entry } : entry,
+      ),
+    };
   }
 
   /**
    * Actualizar estado de una orden (solo ADMIN/SUPER_ADMIN)
-   * Actualiza timestamps según el nuevo estado
+   * - Solo permite las transiciones de ORDER_STATUS_TRANSITIONS (409 si no)
+   * - Registra el cambio en el historial con el admin que lo hizo
+   * - Cada timestamp (paidAt, shippedAt...) se escribe una sola vez
+   * - Al cancelar devuelve el stock (ver restockOrder)
+   * - Al enviar guarda transportista y número de guía
    */
   async updateOrderStatus(
     orderId: string,
     dto: UpdateOrderStatusDto,
-    userRole: Role,
+    adminId: string,
   ) {
-    // Validar permisos
-    if (userRole === Role.USER) {
-      throw new ForbiddenException('No tienes permiso para actualizar órdenes');
-    }
+    return this.transitionOrder(orderId, dto.status, {
+      actorType: OrderActorType.ADMIN,
+      actorId: adminId,
+      notes: dto.adminNotes,
+      adminNotes: dto.adminNotes,
+      cancellationReason: dto.cancellationReason,
+      tracking:
+        dto.carrier && dto.trackingNumber
+          ? { carrier: dto.carrier, trackingNumber: dto.trackingNumber }
+          : undefined,
+    });
+  }
 
+  /**
+   * Cancelar una orden propia (cliente)
+   * - Solo mientras está en PENDING_PAYMENT y sin pagos reportados
+   *   (con pagos de por medio la cancela un admin, que gestiona el reembolso)
+   * - Usa el mismo camino que el admin: historial y devolución de stock
+   */
+  async cancelOrder(orderId: string, userId: string, dto: CancelOrderDto) {
     const order = await this.prisma.order.findUnique({
       where: { id: orderId },
+      select: { userId: true },
     });
 
     if (!order) {
       throw new NotFoundException('Orden no encontrada');
     }
 
+    if (order.userId !== userId) {
+      throw new ForbiddenException(
+        'No tienes permiso para cancelar esta orden',
+      );
+    }
+
+    return this.transitionOrder(orderId, OrderStatus.CANCELADO, {
+      actorType: OrderActorType.CUSTOMER,
+      actorId: userId,
+      notes: dto.reason,
+      cancellationReason: dto.reason,
+      allowedFrom: [OrderStatus.PENDING_PAYMENT],
+      rejectIfPaymentsReported: true,
+    });
+  }
+
+  /**
+   * Obtener todas las órdenes (solo ADMIN)
+   * Con filtros y paginación
+   */
+  async getAllOrders(query: QueryOrdersDto) {
+    const { status, search, page = 1, limit = 10 } = query;
+
+    const where: Prisma.OrderWhereInput = {};
+
+    if (status) {
+      where.status = status;
+    }
+
+    // Buscar por número de orden (completo o solo dígitos) o por cliente
+    if (search) {
+      where.OR = [
+        { orderNumber: normalizeOrderNumber(search) },
+        { orderNumber: { contains: search.trim(), mode: 'insensitive' } },
+        { user: { email: { contains: search, mode: 'insensitive' } } },
+        { user: { name: { contains: search, mode: 'insensitive' } } },
+      ];
+    }
+
+    const [orders, total] = await Promise.all([
+      this.prisma.order.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          items: {
+            include: {
+              variant: true,
+            },
+          },
+          user: {
+            select: {
+              id: true,
+              email: true,
+              name: true,
+              phone: true,
+            },
+          },
+        },
+      }),
+      this.prisma.order.count({ where }),
+    ]);
+
+    return {
+      data: orders,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Confirmar el pago si los pagos verificados ya cubren el total
+   * Se llama dentro de la transacción que verifica un pago; si aún queda
+   * saldo (pago parcial) la orden sigue en PENDING_PAYMENT
+   */
+  async confirmPaymentIfCovered(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    adminId: string,
+    notes?: string,
+  ) {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: {
+        status: true,
+        total: true,
+        payments: { select: { amountUsd: true, status: true } },
+      },
+    });
+
+    const summary = summarizePayments(order.total, order.payments);
+
+    if (!summary.isFullyPaid || order.status !== OrderStatus.PENDING_PAYMENT) {
+      return null;
+    }
+
+    return this.transitionOrderInTransaction(
+      tx,
+      orderId,
+      OrderStatus.PAGO_CONFIRMADO,
+      {
+        actorType: OrderActorType.ADMIN,
+        actorId: adminId,
+        notes: notes ?? 'Pagos verificados cubren el total',
+      },
+    );
+  }
+
+  /**
+   * Cancelar una orden sin pago vencida (job de expiración)
+   * Solo si sigue en PENDING_PAYMENT y sin pagos reportados; si se pagó en
+   * paralelo responde 409
+   */
+  async expireOrder(orderId: string, reason: string) {
+    return this.transitionOrder(orderId, OrderStatus.CANCELADO, {
+      actorType: OrderActorType.SYSTEM,
+      actorId: null,
+      notes: reason,
+      cancellationReason: reason,
+      allowedFrom: [OrderStatus.PENDING_PAYMENT],
+      rejectIfPaymentsReported: true,
+    });
+  }
+
+  /**
+   * Camino único para cambiar el estado de una orden
+   * - Valida la transición (y allowedFrom, si el actor tiene más restricciones)
+   * - PAGO_CONFIRMADO exige que los pagos verificados cubran el total (409 si no)
+   * - Actualiza de forma condicional al estado leído (409 si cambió en paralelo)
+   * - Registra el historial y, al cancelar, devuelve el stock, deja
+   *   pendiente el reembolso de los pagos verificados y rechaza los que
+   *   siguen en revisión
+   */
+  private async transitionOrder(
+    orderId: string,
+    toStatus: OrderStatus,
+    options: TransitionOptions,
+  ) {
+    return this.prisma.$transaction((tx) =>
+      this.transitionOrderInTransaction(tx, orderId, toStatus, options),
+    );
+  }
+
+  /**
+   * Igual que transitionOrder, dentro de una transacción ya abierta
+   * (ej: al verificar un pago que completa el total)
+   */
+  private async transitionOrderInTransaction(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    toStatus: OrderStatus,
+    options: TransitionOptions,
+  ) {
+    // Bloquea la orden: un pago reportado en paralelo espera a que termine
+    // el cambio de estado (y ve la orden ya cancelada)
+    await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      select: {
+        id: true,
+        status: true,
+        total: true,
+        payments: { select: { method: true, amountUsd: true, status: true } },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Orden no encontrada');
+    }
+
+    if (
+      toStatus === OrderStatus.CANCELADO &&
+      options.rejectIfPaymentsReported &&
+      order.payments.some(
+        (payment) =>
+          payment.method !== PaymentMethod.STORE_CREDIT &&
+          (payment.status === PaymentStatus.VERIFIED ||
+            payment.status === PaymentStatus.PENDING_REVIEW),
+      )
+    ) {
+      throw new ConflictException(
+        'La orden tiene pagos reportados. Contáctanos para cancelarla y gestionar el reembolso',
+      );
+    }
+
+    if (options.allowedFrom && !options.allowedFrom.includes(order.status)) {
+      throw new ConflictException({
+        statusCode: 409,
+        error: 'Conflict',
+        message: `La orden está en ${order.status}. Solo se permite desde ${options.allowedFrom.join(', ')}`,
+        currentStatus: order.status,
+        allowedStatuses: [],
+      });
+    }
+
+    this.assertTransitionAllowed(order.status, toStatus);
+
+    // La orden solo se da por pagada si los pagos verificados cubren el total
+    if (toStatus === OrderStatus.PAGO_CONFIRMADO) {
+      const summary = summarizePayments(order.total, order.payments);
+
+      if (!summary.isFullyPaid) {
+        throw new ConflictException({
+          statusCode: 409,
+          error: 'Conflict',
+          message: `Los pagos verificados no cubren el total. Saldo pendiente: ${summary.balance.toFixed(2)} USD`,
+          currentStatus: order.status,
+          paymentSummary: summary,
+        });
+      }
+    }
+
     // Preparar datos de actualización
-    const updateData: {
-      status: OrderStatus;
-      adminNotes?: string;
-      paidAt?: Date;
-      shippedAt?: Date;
-      deliveredAt?: Date;
-      cancelledAt?: Date;
-    } = {
-      status: dto.status,
-      adminNotes: dto.adminNotes,
+    const updateData: Prisma.OrderUpdateManyMutationInput = {
+      status: toStatus,
+      adminNotes: options.adminNotes,
     };
 
     // Actualizar timestamps según el estado
     const now = new Date();
 
-    switch (dto.status) {
+    switch (toStatus) {
       case OrderStatus.PAGO_CONFIRMADO:
         updateData.paidAt = now;
         break;
       case OrderStatus.EN_CAMINO:
+        if (!options.tracking) {
+          throw new BadRequestException(
+            'Para enviar la orden indica el transportista y el número de guía',
+          );
+        }
         updateData.shippedAt = now;
+        updateData.shippingCarrier = options.tracking.carrier;
+        updateData.trackingNumber = options.tracking.trackingNumber;
         break;
       case OrderStatus.ENTREGADO:
         updateData.deliveredAt = now;
         break;
       case OrderStatus.CANCELADO:
         updateData.cancelledAt = now;
+        updateData.cancellationReason = options.cancellationReason;
         break;
     }
 
-    return this.prisma.order.update({
-      where: { id: orderId },
+    // Condicional al estado leído: si otro actor la cambió en paralelo, 409
+    const { count } = await tx.order.updateMany({
+      where: { id: orderId, status: order.status },
       data: updateData,
+    });
+
+    if (count === 0) {
+      throw new ConflictException(
+        'La orden cambió de estado mientras se actualizaba. Recarga e intenta de nuevo',
+      );
+    }
+
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId,
+        fromStatus: order.status,
+        toStatus,
+        actorType: options.actorType,
+        actorId: options.actorId,
+        notes: options.notes,
+      },
+    });
+
+    // Al cancelar, devolver las unidades al inventario y el saldo a favor
+    // usado, y dejar pendiente el reembolso de lo demás que se pagó
+    const restock =
+      toStatus === OrderStatus.CANCELADO
+        ? await this.restockOrder(tx, orderId)
+        : null;
+    const storeCreditRefund =
+      toStatus === OrderStatus.CANCELADO
+        ? await this.returnStoreCredit(tx, orderId)
+        : null;
+    const pendingRefunds =
+      toStatus === OrderStatus.CANCELADO
+        ? await this.createPaymentRefunds(tx, orderId)
+        : [];
+
+    // Los pagos en revisión ya no se pueden revisar con la orden cancelada
+    if (toStatus === OrderStatus.CANCELADO) {
+      await tx.payment.updateMany({
+        where: { orderId, status: PaymentStatus.PENDING_REVIEW },
+        data: {
+          status: PaymentStatus.REJECTED,
+          rejectionReason:
+            'La orden fue cancelada. Si ya hiciste este pago, contáctanos para el reembolso',
+          verifiedById: options.actorId,
+          verifiedAt: now,
+        },
+      });
+    }
+
+    const updatedOrder = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
       include: {
         items: {
           include: {
             variant: true,
           },
         },
-        address: true,
         user: {
           select: {
             id: true,
@@ -322,63 +925,172 @@ export class OrdersService {
         },
       },
     });
+
+    return { ...updatedOrder, restock, storeCreditRefund, pendingRefunds };
   }
 
   /**
-   * Obtener todas las órdenes (solo ADMIN)
-   * Con filtros y paginación
+   * Devuelve al saldo a favor lo que se pagó con él en una orden cancelada
+   * Queda como un reembolso STORE_CREDIT para que cuente en lo reembolsado
    */
-  async getAllOrders(query: QueryOrdersDto, userRole: Role) {
-    if (userRole === Role.USER) {
-      throw new ForbiddenException(
-        'No tienes permiso para ver todas las órdenes',
+  private async returnStoreCredit(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+  ) {
+    const paid = await tx.payment.aggregate({
+      where: {
+        orderId,
+        method: PaymentMethod.STORE_CREDIT,
+        status: PaymentStatus.VERIFIED,
+      },
+      _sum: { amountUsd: true },
+    });
+    const amount = paid._sum.amountUsd;
+
+    if (!amount || amount.isZero()) {
+      return null;
+    }
+
+    const { userId } = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: { userId: true },
+    });
+
+    const refund = await tx.refund.create({
+      data: {
+        orderId,
+        method: PaymentMethod.STORE_CREDIT,
+        amount,
+        amountUsd: amount,
+        status: RefundStatus.COMPLETED,
+        processedAt: new Date(),
+        notes: 'Saldo a favor devuelto al cancelar la orden',
+      },
+    });
+
+    await this.storeCreditService.credit(tx, userId, amount, {
+      type: StoreCreditEntryType.ORDER_CANCELLATION,
+      orderId,
+      refundId: refund.id,
+    });
+
+    return refund;
+  }
+
+  /**
+   * Reembolsos PENDING por los pagos verificados de una orden cancelada
+   * (sin el saldo a favor, que ya se devolvió); un admin los procesa
+   * indicando cómo devolvió el dinero
+   */
+  private async createPaymentRefunds(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+  ) {
+    const payments = await tx.payment.findMany({
+      where: {
+        orderId,
+        method: { not: PaymentMethod.STORE_CREDIT },
+        status: PaymentStatus.VERIFIED,
+      },
+      select: { method: true, reference: true, amountUsd: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const refunds: Refund[] = [];
+
+    for (const payment of payments) {
+      refunds.push(
+        await tx.refund.create({
+          data: {
+            orderId,
+            amount: payment.amountUsd,
+            amountUsd: payment.amountUsd,
+            notes: `Pago ${payment.method}${payment.reference ? ` (ref. ${payment.reference})` : ''} de una orden cancelada`,
+          },
+        }),
       );
     }
 
-    const { status, page = 1, limit = 10 } = query;
+    return refunds;
+  }
 
-    const where: {
-      status?: OrderStatus;
-    } = {};
+  /**
+   * Devuelve al inventario las unidades de una orden cancelada
+   * - Idempotente: restockedAt se marca de forma condicional, un reintento no suma dos veces
+   * - Reactiva las variantes que se desactivaron automáticamente por stock 0
+   *   (las eliminadas a mano por un admin siguen inactivas)
+   * - Retorna el efecto en inventario, o null si ya se había hecho
+   */
+  private async restockOrder(tx: Prisma.TransactionClient, orderId: string) {
+    const { count } = await tx.order.updateMany({
+      where: { id: orderId, restockedAt: null },
+      data: { restockedAt: new Date() },
+    });
 
-    if (status) {
-      where.status = status;
+    if (count === 0) {
+      return null;
     }
 
-    const [orders, total] = await Promise.all([
-      this.prisma.order.findMany({
-        where,
-        skip: (page - 1) * limit,
-        take: limit,
-        orderBy: { createdAt: 'desc' },
-        include: {
-          items: {
-            include: {
-              variant: true,
-            },
-          },
-          address: true,
-          user: {
-            select: {
-              id: true,
-              email: true,
-              name: true,
-              phone: true,
-            },
-          },
+    const items = await tx.orderItem.findMany({
+      where: { orderId },
+      select: { variantId: true, quantity: true },
+      orderBy: { variantId: 'asc' },
+    });
+
+    const restockedItems: {
+      variantId: string;
+      sku: string;
+      quantity: number;
+      stock: number;
+      reactivated: boolean;
+    }[] = [];
+
+    for (const item of items) {
+      const variant = await tx.productVariant.update({
+        where: { id: item.variantId },
+        data: { stock: { increment: item.quantity } },
+        select: { sku: true, stock: true },
+      });
+
+      const { count: reactivated } = await tx.productVariant.updateMany({
+        where: {
+          id: item.variantId,
+          isActive: false,
+          autoDeactivatedAt: { not: null },
+          stock: { gt: 0 },
         },
-      }),
-      this.prisma.order.count({ where }),
-    ]);
+        data: { isActive: true, autoDeactivatedAt: null },
+      });
 
-    return {
-      data: orders,
-      meta: {
-        total,
-        page,
-        limit,
-        totalPages: Math.ceil(total / limit),
-      },
-    };
+      restockedItems.push({
+        variantId: item.variantId,
+        sku: variant.sku,
+        quantity: item.quantity,
+        stock: variant.stock,
+        reactivated: reactivated > 0,
+      });
+    }
+
+    return { items: restockedItems };
+  }
+
+  /**
+   * Valida una transición contra ORDER_STATUS_TRANSITIONS
+   * Responde 409 con los estados permitidos desde el estado actual
+   */
+  private assertTransitionAllowed(from: OrderStatus, to: OrderStatus) {
+    const allowedStatuses = ORDER_STATUS_TRANSITIONS[from];
+
+    if (!allowedStatuses.includes(to)) {
+      throw new ConflictException({
+        statusCode: 409,
+        error: 'Conflict',
+        message: allowedStatuses.length
+          ? `No se puede pasar de ${from} a ${to}. Estados permitidos: ${allowedStatuses.join(', ')}`
+          : `La orden está en ${from} y ya no puede cambiar de estado`,
+        currentStatus: from,
+        allowedStatuses,
+      });
+    }
   }
 }
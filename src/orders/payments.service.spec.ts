@@ -0,0 +1,127 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  Currency,
+  OrderStatus,
+  PaymentMethod,
+  PaymentStatus,
+  Prisma,
+} from '@prisma/client';
+import { PaymentsService } from './payments.service';
+import { OrdersService } from './orders.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { UploadService } from '../upload/upload.service';
+import { MailService } from '../mail/mail.service';
+import { createFakePrisma } from '../common/testing/fake-prisma';
+
+type Increment = { increment: Prisma.Decimal };
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let order: {
+    status: OrderStatus;
+    exchangeRate: Prisma.Decimal;
+    igtfRate: Prisma.Decimal;
+    total: Prisma.Decimal;
+    taxIgtf: Prisma.Decimal;
+    totalVes: Prisma.Decimal;
+  };
+  let payments: {
+    amountUsd: Prisma.Decimal;
+    igtfAmount: Prisma.Decimal;
+    status: PaymentStatus;
+  }[];
+
+  beforeEach(async () => {
+    // 50 + 8 de IVA, sin IGTF: se suma con cada pago en divisas
+    order = {
+      status: OrderStatus.PENDING_PAYMENT,
+      exchangeRate: new Prisma.Decimal('36.5'),
+      igtfRate: new Prisma.Decimal('0.03'),
+      total: new Prisma.Decimal('58.00'),
+      taxIgtf: new Prisma.Decimal(0),
+      totalVes: new Prisma.Decimal('2117.00'),
+    };
+    payments = [];
+
+    const prisma = createFakePrisma(() => ({
+      order: {
+        findUnique: jest.fn(() => Promise.resolve(order)),
+        findUniqueOrThrow: jest.fn(() =>
+          Promise.resolve({ total: order.total, payments }),
+        ),
+        update: jest.fn(
+          ({
+            data,
+          }: {
+            data: { taxIgtf: Increment; total: Increment; totalVes: Increment };
+          }) => {
+            order.taxIgtf = order.taxIgtf.add(data.taxIgtf.increment);
+            order.total = order.total.add(data.total.increment);
+            order.totalVes = order.totalVes.add(data.totalVes.increment);
+            return Promise.resolve(order);
+          },
+        ),
+      },
+      payment: {
+        create: jest.fn(({ data }: { data: (typeof payments)[number] }) => {
+          payments.push(data);
+          return Promise.resolve(data);
+        }),
+      },
+    }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: UploadService, useValue: {} },
+        { provide: MailService, useValue: {} },
+        {
+          provide: OrdersService,
+          useValue: {
+            confirmPaymentIfCovered: jest.fn().mockResolvedValue(null),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentsService>(PaymentsService);
+  });
+
+  it('cobra el IGTF solo sobre la parte pagada en divisas', async () => {
+    // 30 USD del total por Zelle + 3% de IGTF
+    await service.record('order-1', 'admin-1', {
+      method: PaymentMethod.ZELLE,
+      amount: 30.9,
+      currency: Currency.USD,
+    });
+
+    // Los 28 USD restantes por Pago Móvil en Bs, sin IGTF
+    const { paymentSummary } = await service.record('order-1', 'admin-1', {
+      method: PaymentMethod.PAGO_MOVIL,
+      amount: 1022,
+      currency: Currency.VES,
+    });
+
+    expect(payments.map((payment) => payment.igtfAmount.toFixed(2))).toEqual([
+      '0.90',
+      '0.00',
+    ]);
+    expect(order.taxIgtf.toFixed(2)).toBe('0.90');
+    expect(order.total.toFixed(2)).toBe('58.90');
+    expect(order.totalVes.toFixed(2)).toBe('2149.85');
+    expect(paymentSummary.isFullyPaid).toBe(true);
+  });
+
+  it('un pago en efectivo en Bs no lleva IGTF', async () => {
+    await service.record('order-1', 'admin-1', {
+      method: PaymentMethod.EFECTIVO,
+      amount: 365,
+      currency: Currency.VES,
+    });
+
+    expect(payments[0].amountUsd.toFixed(2)).toBe('10.00');
+    expect(payments[0].igtfAmount.toFixed(2)).toBe('0.00');
+    expect(order.total.toFixed(2)).toBe('58.00');
+  });
+});
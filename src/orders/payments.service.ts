@@ -0,0 +1,470 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import {
+  Currency,
+  OrderStatus,
+  PaymentMethod,
+  PaymentStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { UploadService } from '../upload/upload.service';
+import { MailService } from '../mail/mail.service';
+import { OrdersService } from './orders.service';
+import { CreatePaymentDto } from './dto/create-payment.dto';
+import { RecordPaymentDto } from './dto/record-payment.dto';
+import { ApprovePaymentDto } from './dto/approve-payment.dto';
+import { RejectPaymentDto } from './dto/reject-payment.dto';
+import { QueryOrdersDto } from './dto/query-orders.dto';
+import { summarizePayments } from './utils/payment-summary.util';
+import { resolvePaymentCurrency } from '../taxes/utils/tax-calculator.util';
+import { toVes } from '../exchange-rates/utils/currency.util';
+
+/**
+ * Métodos de pago que se verifican con comprobante
+ */
+const PROOF_PAYMENT_METHODS: PaymentMethod[] = [
+  PaymentMethod.TRANSFERENCIA,
+  PaymentMethod.PAGO_MOVIL,
+  PaymentMethod.ZELLE,
+];
+
+const PAYMENT_PROOF_FOLDER = 'delcarajo/payment-proofs';
+
+/**
+ * Pagos de una orden
+ * - Una orden puede pagarse en varias partes, con distintos métodos y monedas
+ * - Cada pago en divisas lleva su IGTF, que se suma a la orden al verificarse
+ * - El cliente reporta cada pago con su comprobante (carpeta privada)
+ * - Los admins verifican o rechazan cada pago; cuando los verificados
+ *   cubren el total, la orden pasa a PAGO_CONFIRMADO
+ */
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private uploadService: UploadService,
+    private mailService: MailService,
+    private ordersService: OrdersService,
+  ) {}
+
+  /**
+   * Reportar un pago con comprobante (dueño de la orden)
+   * - Solo con TRANSFERENCIA, PAGO_MOVIL y ZELLE
+   * - Solo mientras la orden está en PENDING_PAYMENT
+   * - Se pueden reportar varios pagos (pago parcial)
+   */
+  async submit(
+    orderId: string,
+    userId: string,
+    file: Express.Multer.File,
+    dto: CreatePaymentDto,
+  ) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: {
+        userId: true,
+        status: true,
+        exchangeRate: true,
+        igtfRate: true,
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Orden no encontrada');
+    }
+
+    if (order.userId !== userId) {
+      throw new ForbiddenException(
+        'No tienes permiso para modificar esta orden',
+      );
+    }
+
+    if (!PROOF_PAYMENT_METHODS.includes(dto.method)) {
+      throw new BadRequestException(
+        `El método de pago ${dto.method} no se reporta con comprobante`,
+      );
+    }
+
+    if (order.status !== OrderStatus.PENDING_PAYMENT) {
+      throw new ConflictException('La orden ya no está pendiente de pago');
+    }
+
+    // Antes de subir la imagen: si el pago no es válido para la orden, 400
+    const amounts = this.buildAmounts(dto, order.exchangeRate, order.igtfRate);
+
+    const upload = await this.uploadService.uploadImage(file, {
+      folder: PAYMENT_PROOF_FOLDER,
+      private: true,
+    });
+
+    try {
+      const payment = await this.prisma.$transaction(async (tx) => {
+        // La orden pudo cancelarse mientras se subía la imagen
+        await this.lockPendingOrder(tx, orderId);
+
+        return tx.payment.create({
+          data: {
+            orderId,
+            ...amounts,
+            reference: dto.reference,
+            bank: dto.bank,
+            payerName: dto.payerName,
+            proof: upload.publicId,
+          },
+        });
+      });
+
+      return {
+        ...payment,
+        message: 'Pago recibido. Te avisaremos cuando sea verificado',
+      };
+    } catch (error) {
+      await this.uploadService.deleteImage(upload.publicId).catch(() => {
+        this.logger.warn(`No se pudo eliminar ${upload.publicId}`);
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Registrar un pago ya verificado (admin)
+   * Para pagos sin comprobante, como efectivo recibido en la entrega.
+   * Si con este pago se cubre el total, confirma la orden
+   */
+  async record(orderId: string, adminId: string, dto: RecordPaymentDto) {
+    if (dto.method === PaymentMethod.STORE_CREDIT) {
+      throw new BadRequestException(
+        'El saldo a favor solo se aplica al crear la orden',
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const order = await this.lockPendingOrder(tx, orderId);
+
+      const payment = await tx.payment.create({
+        data: {
+          orderId,
+          ...this.buildAmounts(
+            dto,
+            dto.exchangeRate !== undefined
+              ? new Prisma.Decimal(dto.exchangeRate)
+              : order.exchangeRate,
+            order.igtfRate,
+          ),
+          reference: dto.reference,
+          bank: dto.bank,
+          payerName: dto.payerName,
+          status: PaymentStatus.VERIFIED,
+          verifiedById: adminId,
+          verifiedAt: new Date(),
+        },
+      });
+
+      await this.chargeIgtf(tx, orderId, order, payment.igtfAmount);
+
+      const confirmedOrder = await this.ordersService.confirmPaymentIfCovered(
+        tx,
+        orderId,
+        adminId,
+      );
+
+      return {
+        payment,
+        orderStatus: confirmedOrder?.status ?? order.status,
+        paymentSummary: await this.getSummary(tx, orderId),
+      };
+    });
+  }
+
+  /**
+   * Cola de revisión para admins (los más antiguos primero)
+   * Incluye URL firmada del comprobante y el saldo de la orden
+   */
+  async findPending(query: QueryOrdersDto) {
+    const { page = 1, limit = 10 } = query;
+
+    const where: Prisma.PaymentWhereInput = {
+      status: PaymentStatus.PENDING_REVIEW,
+      order: { status: OrderStatus.PENDING_PAYMENT },
+    };
+
+    const [payments, total] = await Promise.all([
+      this.prisma.payment.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'asc' },
+        include: {
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+              total: true,
+              paymentMethod: true,
+              createdAt: true,
+              user: {
+                select: {
+                  id: true,
+                  email: true,
+                  name: true,
+                  phone: true,
+                },
+              },
+              payments: { select: { amountUsd: true, status: true } },
+            },
+          },
+        },
+      }),
+      this.prisma.payment.count({ where }),
+    ]);
+
+    return {
+      data: payments.map(
+        ({ proof, order: { payments, ...order }, ...payment }) => ({
+          ...payment,
+          proofUrl: proof ? this.uploadService.getPrivateImageUrl(proof) : null,
+          order: {
+            ...order,
+            paymentSummary: summarizePayments(order.total, payments),
+          },
+        }),
+      ),
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Verificar un pago
+   * Si los pagos verificados cubren el total, la orden pasa a PAGO_CONFIRMADO
+   * en la misma transacción; si no, queda pendiente con el saldo restante
+   */
+  async approve(paymentId: string, adminId: string, dto: ApprovePaymentDto) {
+    const payment = await this.getPaymentInReview(paymentId);
+
+    return this.prisma.$transaction(async (tx) => {
+      const order = await this.lockPendingOrder(tx, payment.orderId);
+
+      // Condicional: si otro admin lo revisó en paralelo, 409
+      const { count } = await tx.payment.updateMany({
+        where: { id: paymentId, status: PaymentStatus.PENDING_REVIEW },
+        data: {
+          status: PaymentStatus.VERIFIED,
+          verifiedById: adminId,
+          verifiedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new ConflictException('El pago ya fue revisado');
+      }
+
+      await this.chargeIgtf(tx, payment.orderId, order, payment.igtfAmount);
+
+      const confirmedOrder = await this.ordersService.confirmPaymentIfCovered(
+        tx,
+        payment.orderId,
+        adminId,
+        dto.notes,
+      );
+
+      return {
+        paymentId,
+        status: PaymentStatus.VERIFIED,
+        orderId: payment.orderId,
+        orderStatus: confirmedOrder?.status ?? payment.order.status,
+        paymentSummary: await this.getSummary(tx, payment.orderId),
+      };
+    });
+  }
+
+  /**
+   * Rechazar un pago: la orden sigue pendiente y se avisa al cliente
+   * para que reporte uno nuevo
+   */
+  async reject(paymentId: string, adminId: string, dto: RejectPaymentDto) {
+    const payment = await this.getPaymentInReview(paymentId);
+
+    const { count } = await this.prisma.payment.updateMany({
+      where: { id: paymentId, status: PaymentStatus.PENDING_REVIEW },
+      data: {
+        status: PaymentStatus.REJECTED,
+        rejectionReason: dto.reason,
+        verifiedById: adminId,
+        verifiedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictException('El pago ya fue revisado');
+    }
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+    await this.mailService.sendPaymentProofRejected(
+      payment.order.user.email,
+      payment.order.user.name,
+      payment.order.orderNumber,
+      dto.reason,
+      `${frontendUrl}/orders/${payment.orderId}`,
+    );
+
+    return {
+      paymentId,
+      status: PaymentStatus.REJECTED,
+      rejectionReason: dto.reason,
+      orderId: payment.orderId,
+    };
+  }
+
+  /**
+   * Bloquea la orden hasta el fin de la transacción y exige que siga
+   * pendiente de pago: un pago no se registra ni se verifica mientras
+   * la orden se cancela en paralelo
+   */
+  private async lockPendingOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+  ) {
+    await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      select: { status: true, exchangeRate: true, igtfRate: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Orden no encontrada');
+    }
+
+    if (order.status !== OrderStatus.PENDING_PAYMENT) {
+      throw new ConflictException('La orden ya no está pendiente de pago');
+    }
+
+    return order;
+  }
+
+  /**
+   * Monto en USD del pago: los pagos en Bs se convierten con la tasa de
+   * la orden (nunca con una tasa que indique el cliente)
+   * Los pagos en divisas incluyen el IGTF con la alícuota de la orden:
+   * de amountUsd solo amountUsd / (1 + igtfRate) cubre el total
+   */
+  private buildAmounts(
+    dto: CreatePaymentDto | RecordPaymentDto,
+    exchangeRate: Prisma.Decimal | null,
+    igtfRate: Prisma.Decimal | null,
+  ) {
+    const currency = dto.currency ?? Currency.USD;
+    const amount = new Prisma.Decimal(dto.amount);
+    let amountUsd = amount;
+
+    if (currency === Currency.VES) {
+      if (!exchangeRate) {
+        throw new BadRequestException(
+          'La orden no tiene tasa de cambio registrada. Reporta el pago en USD',
+        );
+      }
+
+      amountUsd = amount.div(exchangeRate).toDecimalPlaces(2);
+    }
+
+    // Órdenes anteriores a los impuestos no tienen alícuota: sin IGTF
+    const igtfAmount =
+      igtfRate && resolvePaymentCurrency(dto.method, currency) === Currency.USD
+        ? amountUsd.sub(amountUsd.div(igtfRate.add(1)).toDecimalPlaces(2))
+        : new Prisma.Decimal(0);
+
+    return {
+      method: dto.method,
+      amount,
+      currency,
+      exchangeRate: currency === Currency.VES ? exchangeRate : null,
+      amountUsd,
+      igtfAmount,
+    };
+  }
+
+  /**
+   * Un pago en divisas verificado suma su IGTF al impuesto y al total de
+   * la orden: el saldo pendiente solo baja por la parte sin IGTF
+   */
+  private async chargeIgtf(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    order: { exchangeRate: Prisma.Decimal | null },
+    igtfAmount: Prisma.Decimal,
+  ) {
+    if (igtfAmount.isZero()) {
+      return;
+    }
+
+    await tx.order.update({
+      where: { id: orderId },
+      data: {
+        taxIgtf: { increment: igtfAmount },
+        total: { increment: igtfAmount },
+        ...(order.exchangeRate && {
+          totalVes: { increment: toVes(igtfAmount, order.exchangeRate) },
+        }),
+      },
+    });
+  }
+
+  private async getSummary(tx: Prisma.TransactionClient, orderId: string) {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: {
+        total: true,
+        payments: { select: { amountUsd: true, status: true } },
+      },
+    });
+
+    return summarizePayments(order.total, order.payments);
+  }
+
+  private async getPaymentInReview(paymentId: string) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+      select: {
+        orderId: true,
+        status: true,
+        igtfAmount: true,
+        order: {
+          select: {
+            status: true,
+            orderNumber: true,
+            user: { select: { email: true, name: true } },
+          },
+        },
+      },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Pago no encontrado');
+    }
+
+    if (payment.status !== PaymentStatus.PENDING_REVIEW) {
+      throw new ConflictException('El pago no está en revisión');
+    }
+
+    if (payment.order.status !== OrderStatus.PENDING_PAYMENT) {
+      throw new ConflictException('La orden ya no está pendiente de pago');
+    }
+
+    return payment;
+  }
+}
@@ -0,0 +1,29 @@
+const DEFAULT_ORDER_NUMBER_PREFIX = 'DLC';
+const ORDER_NUMBER_DIGITS = 6;
+
+/**
+ * Prefijo de los números de orden (ORDER_NUMBER_PREFIX, por defecto DLC)
+ */
+function getOrderNumberPrefix(): string {
+  return (
+    process.env.ORDER_NUMBER_PREFIX?.trim().toUpperCase() ||
+    DEFAULT_ORDER_NUMBER_PREFIX
+  );
+}
+
+/**
+ * Formatea el correlativo: 123 -> "DLC-000123"
+ */
+export function formatOrderNumber(sequence: number): string {
+  return `${getOrderNumberPrefix()}-${String(sequence).padStart(ORDER_NUMBER_DIGITS, '0')}`;
+}
+
+/**
+ * Normaliza lo que escribe el cliente o el admin
+ * "dlc-000123" -> "DLC-000123"; "123" -> "DLC-000123" (prefijo actual)
+ */
+export function normalizeOrderNumber(input: string): string {
+  const value = input.trim().toUpperCase();
+
+  return /^\d+$/.test(value) ? formatOrderNumber(Number(value)) : value;
+}
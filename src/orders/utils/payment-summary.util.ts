@@ -0,0 +1,40 @@
+import { PaymentStatus, Prisma } from '@prisma/client';
+
+/**
+ * Resumen de pagos de una orden (todo en USD)
+ * - paid: pagos verificados
+ * - pending: pagos en revisión
+ * - balance: lo que falta por verificar para cubrir el total (nunca negativo)
+ */
+export interface PaymentSummary {
+  total: Prisma.Decimal;
+  paid: Prisma.Decimal;
+  pending: Prisma.Decimal;
+  balance: Prisma.Decimal;
+  isFullyPaid: boolean;
+}
+
+export function summarizePayments(
+  total: Prisma.Decimal,
+  payments: { amountUsd: Prisma.Decimal; status: PaymentStatus }[],
+): PaymentSummary {
+  const sum = (status: PaymentStatus) =>
+    payments
+      .filter((payment) => payment.status === status)
+      .reduce(
+        (acc, payment) => acc.add(payment.amountUsd),
+        new Prisma.Decimal(0),
+      );
+
+  const paid = sum(PaymentStatus.VERIFIED);
+  const pending = sum(PaymentStatus.PENDING_REVIEW);
+  const balance = Prisma.Decimal.max(total.sub(paid), 0);
+
+  return {
+    total,
+    paid,
+    pending,
+    balance,
+    isFullyPaid: balance.isZero(),
+  };
+}
@@ -4,6 +4,7 @@ import {
   IsUUID,
   IsEnum,
   IsInt,
+  IsNumber,
   Min,
   IsOptional,
   IsHexColor,
@@ -76,10 +77,34 @@ export class CreateVariantDto {
   stock: number;
 
   /**
-   * Precio en Bs o USD (sin decimales, en centavos/céntimos)
-   * @example 2500
+   * Umbral de stock bajo para esta variante
+   * Si se omite (o es null) se usa LOW_STOCK_THRESHOLD global
+   * @example 3
    */
-  @IsInt({ message: 'El precio debe ser un número entero' })
+  @IsInt({ message: 'El umbral de stock bajo debe ser un número entero' })
+  @Min(0, { message: 'El umbral de stock bajo no puede ser negativo' })
+  @IsOptional()
+  lowStockThreshold?: number | null;
+
+  /**
+   * Peso en gramos, para las tarifas de envío por peso
+   * Si se omite (o es null) se usa DEFAULT_ITEM_WEIGHT_GRAMS
+   * @example 250
+   */
+  @IsInt({ message: 'El peso debe ser un número entero de gramos' })
+  @Min(1, { message: 'El peso debe ser mayor a 0' })
+  @IsOptional()
+  weightGrams?: number | null;
+
+  /**
+   * Precio en USD sin IVA (máximo 2 decimales). El precio en Bs se calcula
+   * con la tasa vigente al mostrarlo y se fija en la orden al comprar
+   * @example 25.5
+   */
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'El precio debe ser un número con máximo 2 decimales' },
+  )
   @Min(0, { message: 'El precio no puede ser negativo' })
   @IsNotEmpty({ message: 'El precio es obligatorio' })
   price: number;
@@ -9,7 +9,9 @@ import {
   Query,
   HttpCode,
   HttpStatus,
+  UseGuards,
 } from '@nestjs/common';
+import { Role } from '@prisma/client';
 import { ProductsService } from './products.service';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
@@ -17,8 +19,14 @@ import { CreateVariantDto } from './dto/create-variant.dto';
 import { UpdateVariantDto } from './dto/update-variant.dto';
 import { CreateProductImageDto } from './dto/create-product-image.dto';
 import { QueryProductsDto } from './dto/query-products.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Public } from '../auth/decorators/public.decorator';
 
 @Controller('products')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPER_ADMIN)
 export class ProductsController {
   constructor(private readonly productsService: ProductsService) {}
 
@@ -37,6 +45,7 @@ export class ProductsController {
    * @route GET /products?search=franela&categoryId=xxx&page=1&limit=12
    */
   @Get()
+  @Public()
   findAll(@Query() query: QueryProductsDto) {
     return this.productsService.findAll(query);
   }
@@ -46,6 +55,7 @@ export class ProductsController {
    * @route GET /products/:id
    */
   @Get(':id')
+  @Public()
   findOne(@Param('id') id: string) {
     return this.productsService.findOne(id);
   }
@@ -84,6 +94,7 @@ export class ProductsController {
    * @route GET /products/:productId/variants
    */
   @Get(':productId/variants')
+  @Public()
   findVariantsByProduct(@Param('productId') productId: string) {
     return this.productsService.findVariantsByProduct(productId);
   }
@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { ProductsService } from './products.service';
 import { ProductsController } from './products.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, ExchangeRatesModule],
   controllers: [ProductsController],
   providers: [ProductsService],
   exports: [ProductsService],
@@ -11,11 +11,21 @@ import { CreateVariantDto } from './dto/create-variant.dto';
 import { UpdateVariantDto } from './dto/update-variant.dto';
 import { CreateProductImageDto } from './dto/create-product-image.dto';
 import { QueryProductsDto } from './dto/query-products.dto';
-import { Product, ProductVariant, ProductImage } from '@prisma/client';
+import {
+  ExchangeRate,
+  Product,
+  ProductVariant,
+  ProductImage,
+} from '@prisma/client';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { toVes } from '../exchange-rates/utils/currency.util';
 
 @Injectable()
 export class ProductsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly exchangeRatesService: ExchangeRatesService,
+  ) {}
 
   /**
    * Genera un slug amigable para URLs a partir de un nombre
@@ -29,6 +39,23 @@ export class ProductsService {
       .replace(/(^-|-$)/g, '');
   }
 
+  /**
+   * Agrega a cada variante su precio en Bs con la tasa vigente
+   * (null si todavía no hay tasa cargada)
+   */
+  private withVesPrices<T extends { variants: ProductVariant[] }>(
+    product: T,
+    rate: ExchangeRate | null,
+  ) {
+    return {
+      ...product,
+      variants: product.variants.map((variant) => ({
+        ...variant,
+        priceVes: rate ? toVes(variant.price, rate.rate) : null,
+      })),
+    };
+  }
+
   /**
    * Crea un nuevo producto
    */
@@ -159,7 +186,7 @@ export class ProductsService {
       };
     }
 
-    const [products, total] = await Promise.all([
+    const [products, total, rate] = await Promise.all([
       this.prisma.product.findMany({
         where,
         skip,
@@ -179,16 +206,18 @@ export class ProductsService {
         },
       }),
       this.prisma.product.count({ where }),
+      this.exchangeRatesService.findCurrent(),
     ]);
 
     return {
-      data: products,
+      data: products.map((product) => this.withVesPrices(product, rate)),
       meta: {
         total,
         page,
         limit,
         totalPages: Math.ceil(total / limit),
       },
+      exchangeRate: rate?.rate ?? null,
     };
   }
 
@@ -221,7 +250,12 @@ export class ProductsService {
       throw new NotFoundException(`Producto con ID "${id}" no encontrado`);
     }
 
-    return product;
+    const rate = await this.exchangeRatesService.findCurrent();
+
+    return {
+      ...this.withVesPrices(product, rate),
+      exchangeRate: rate?.rate ?? null,
+    };
   }
 
   /**
@@ -334,6 +368,7 @@ export class ProductsService {
       data: {
         ...createVariantDto,
         isActive,
+        autoDeactivatedAt: isActive ? null : new Date(),
       },
     });
   }
@@ -395,11 +430,17 @@ export class ProductsService {
         ? updateVariantDto.stock > 0
         : variant.stock > 0;
 
+    // Al reponer stock se limpia la marca; al agotarse se registra una sola vez
+    const autoDeactivatedAt: Date | null = isActive
+      ? null
+      : (variant.autoDeactivatedAt ?? new Date());
+
     return this.prisma.productVariant.update({
       where: { id },
       data: {
         ...updateVariantDto,
         isActive,
+        autoDeactivatedAt,
       },
     });
   }
@@ -416,9 +457,10 @@ export class ProductsService {
       throw new NotFoundException(`Variante con ID "${id}" no encontrada`);
     }
 
+    // Eliminada a propósito: no debe aparecer como agotada en las alertas
     return this.prisma.productVariant.update({
       where: { id },
-      data: { isActive: false },
+      data: { isActive: false, autoDeactivatedAt: null },
     });
   }
 
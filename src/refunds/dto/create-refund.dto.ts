@@ -0,0 +1,73 @@
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsEnum,
+  Min,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { Currency, PaymentMethod } from '@prisma/client';
+
+/**
+ * DTO para registrar un reembolso ya hecho sobre una orden (admin)
+ * Ej: se devolvió parte de un pago por un producto agotado
+ * Con method STORE_CREDIT el monto se abona como saldo a favor (en USD)
+ */
+export class CreateRefundDto {
+  /**
+   * Método con que se devolvió el dinero
+   * @example "PAGO_MOVIL"
+   */
+  @IsEnum(PaymentMethod, { message: 'method debe ser un método válido' })
+  method: PaymentMethod;
+
+  /**
+   * Monto devuelto en la moneda indicada
+   * @example 912.5
+   */
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'amount debe ser un número con máximo 2 decimales' },
+  )
+  @Min(0.01, { message: 'amount debe ser mayor a 0' })
+  amount: number;
+
+  /**
+   * Moneda del reembolso (por defecto USD)
+   * @example "VES"
+   */
+  @IsEnum(Currency, { message: 'currency debe ser USD o VES' })
+  @IsOptional()
+  currency?: Currency = Currency.USD;
+
+  /**
+   * Bs por 1 USD usados (obligatorio si currency = VES)
+   * @example 36.5
+   */
+  @ValidateIf((dto: CreateRefundDto) => dto.currency === Currency.VES)
+  @IsNumber(
+    { maxDecimalPlaces: 4 },
+    { message: 'exchangeRate debe ser un número con máximo 4 decimales' },
+  )
+  @Min(0.0001, { message: 'exchangeRate debe ser mayor a 0' })
+  exchangeRate?: number;
+
+  /**
+   * Referencia de la operación (opcional)
+   * @example "00123456789"
+   */
+  @IsString({ message: 'reference debe ser un texto' })
+  @IsOptional()
+  @MaxLength(60, { message: 'reference no puede exceder 60 caracteres' })
+  reference?: string;
+
+  /**
+   * Nota interna (opcional)
+   * @example "Talla agotada, se devuelve la franela"
+   */
+  @IsString({ message: 'notes debe ser un texto' })
+  @IsOptional()
+  @MaxLength(500, { message: 'notes no puede exceder 500 caracteres' })
+  notes?: string;
+}
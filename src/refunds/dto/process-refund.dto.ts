@@ -0,0 +1,10 @@
+import { OmitType } from '@nestjs/mapped-types';
+import { CreateRefundDto } from './create-refund.dto';
+
+/**
+ * DTO para procesar un reembolso pendiente (admin)
+ * El monto sale del reembolso (amountUsd); en Bs se convierte con exchangeRate
+ */
+export class ProcessRefundDto extends OmitType(CreateRefundDto, [
+  'amount',
+] as const) {}
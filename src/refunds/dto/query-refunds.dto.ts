@@ -0,0 +1,38 @@
+import { IsOptional, IsEnum, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { RefundStatus } from '@prisma/client';
+
+/**
+ * DTO para listar reembolsos
+ * Usado en GET /admin/refunds con query params
+ */
+export class QueryRefundsDto {
+  /**
+   * Filtrar por estado
+   * @example "PENDING"
+   */
+  @IsEnum(RefundStatus, { message: 'status debe ser PENDING o COMPLETED' })
+  @IsOptional()
+  status?: RefundStatus;
+
+  /**
+   * Número de página (para paginación)
+   * @example 1
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'page debe ser un número entero' })
+  @Min(1, { message: 'page debe ser al menos 1' })
+  @IsOptional()
+  page?: number = 1;
+
+  /**
+   * Cantidad de resultados por página
+   * @example 10
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'limit debe ser un número entero' })
+  @Min(1, { message: 'limit debe ser al menos 1' })
+  @Max(50, { message: 'limit no puede ser mayor a 50' })
+  @IsOptional()
+  limit?: number = 10;
+}
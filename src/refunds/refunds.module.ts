@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { RefundsService } from './refunds.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { StoreCreditModule } from '../store-credit/store-credit.module';
+
+@Module({
+  imports: [PrismaModule, StoreCreditModule],
+  providers: [RefundsService],
+  exports: [RefundsService], // Las rutas están en /admin
+})
+export class RefundsModule {}
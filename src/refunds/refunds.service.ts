@@ -0,0 +1,281 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import {
+  Currency,
+  PaymentMethod,
+  PaymentStatus,
+  Prisma,
+  RefundStatus,
+  StoreCreditEntryType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { StoreCreditService } from '../store-credit/store-credit.service';
+import { toVes } from '../exchange-rates/utils/currency.util';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { ProcessRefundDto } from './dto/process-refund.dto';
+import { QueryRefundsDto } from './dto/query-refunds.dto';
+
+const REFUND_INCLUDE = {
+  order: {
+    select: {
+      id: true,
+      orderNumber: true,
+      user: { select: { id: true, email: true, name: true } },
+    },
+  },
+  returnRequest: { select: { id: true, type: true, quantity: true } },
+} satisfies Prisma.RefundInclude;
+
+/**
+ * Reembolsos (dinero que vuelve al cliente)
+ * - Las devoluciones completadas crean reembolsos PENDING que el admin procesa
+ * - El admin también puede registrar un reembolso directo sobre una orden
+ * - Con STORE_CREDIT el monto se abona al saldo a favor del cliente
+ * - Lo reembolsado de una orden nunca supera lo pagado (pagos verificados)
+ */
+@Injectable()
+export class RefundsService {
+  constructor(
+    private prisma: PrismaService,
+    private storeCreditService: StoreCreditService,
+  ) {}
+
+  /**
+   * Reembolsos (admin), los más antiguos primero
+   */
+  async findAll(query: QueryRefundsDto) {
+    const { status, page = 1, limit = 10 } = query;
+    const where: Prisma.RefundWhereInput = status ? { status } : {};
+
+    const [refunds, total] = await Promise.all([
+      this.prisma.refund.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'asc' },
+        include: REFUND_INCLUDE,
+      }),
+      this.prisma.refund.count({ where }),
+    ]);
+
+    return {
+      data: refunds,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Registrar un reembolso ya hecho sobre una orden
+   */
+  async create(orderId: string, adminId: string, dto: CreateRefundDto) {
+    const amounts = this.buildAmounts(dto);
+
+    return this.prisma.$transaction(async (tx) => {
+      const order = await tx.order.findUnique({
+        where: { id: orderId },
+        select: { userId: true },
+      });
+
+      if (!order) {
+        throw new NotFoundException('Orden no encontrada');
+      }
+
+      await this.assertRefundable(tx, orderId, amounts.amountUsd);
+
+      const refund = await tx.refund.create({
+        data: {
+          orderId,
+          ...amounts,
+          method: dto.method,
+          reference: dto.reference,
+          notes: dto.notes,
+          status: RefundStatus.COMPLETED,
+          processedById: adminId,
+          processedAt: new Date(),
+        },
+        include: REFUND_INCLUDE,
+      });
+
+      await this.issueStoreCredit(
+        tx,
+        order.userId,
+        refund.id,
+        amounts.amountUsd,
+        dto,
+      );
+
+      return refund;
+    });
+  }
+
+  /**
+   * Procesar un reembolso pendiente indicando cómo se devolvió
+   */
+  async process(refundId: string, adminId: string, dto: ProcessRefundDto) {
+    return this.prisma.$transaction(async (tx) => {
+      const refund = await tx.refund.findUnique({
+        where: { id: refundId },
+        select: {
+          orderId: true,
+          amountUsd: true,
+          order: { select: { userId: true } },
+        },
+      });
+
+      if (!refund) {
+        throw new NotFoundException(
+          `Reembolso con ID "${refundId}" no encontrado`,
+        );
+      }
+
+      await this.assertRefundable(
+        tx,
+        refund.orderId,
+        refund.amountUsd,
+        refundId,
+      );
+
+      const currency = dto.currency ?? Currency.USD;
+      this.assertCurrency(dto.method, currency);
+
+      const exchangeRate =
+        currency === Currency.VES ? new Prisma.Decimal(dto.exchangeRate) : null;
+
+      // Condicional al estado: dos admins no pueden procesarlo dos veces
+      const { count } = await tx.refund.updateMany({
+        where: { id: refundId, status: RefundStatus.PENDING },
+        data: {
+          method: dto.method,
+          amount: exchangeRate
+            ? toVes(refund.amountUsd, exchangeRate)
+            : refund.amountUsd,
+          currency,
+          exchangeRate,
+          reference: dto.reference,
+          notes: dto.notes,
+          status: RefundStatus.COMPLETED,
+          processedById: adminId,
+          processedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new ConflictException('El reembolso ya fue procesado');
+      }
+
+      await this.issueStoreCredit(
+        tx,
+        refund.order.userId,
+        refundId,
+        refund.amountUsd,
+        dto,
+      );
+
+      return tx.refund.findUniqueOrThrow({
+        where: { id: refundId },
+        include: REFUND_INCLUDE,
+      });
+    });
+  }
+
+  /**
+   * Lo reembolsado (incluido este monto) no puede superar lo pagado
+   * - Bloquea la fila de la orden hasta el fin de la transacción: dos
+   *   reembolsos simultáneos de la misma orden se validan uno tras otro
+   * - excludeRefundId: reembolso ya guardado que se está procesando
+   *   (no se cuenta dos veces)
+   */
+  async assertRefundable(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    amountUsd: Prisma.Decimal,
+    excludeRefundId?: string,
+  ) {
+    await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+
+    const [paid, refunded] = await Promise.all([
+      tx.payment.aggregate({
+        where: { orderId, status: PaymentStatus.VERIFIED },
+        _sum: { amountUsd: true },
+      }),
+      tx.refund.aggregate({
+        where: {
+          orderId,
+          ...(excludeRefundId && { id: { not: excludeRefundId } }),
+        },
+        _sum: { amountUsd: true },
+      }),
+    ]);
+
+    const available = (paid._sum.amountUsd ?? new Prisma.Decimal(0)).sub(
+      refunded._sum.amountUsd ?? 0,
+    );
+
+    if (amountUsd.gt(available)) {
+      throw new BadRequestException(
+        `El reembolso supera lo pagado. Disponible para reembolsar: ${available.toFixed(2)} USD`,
+      );
+    }
+  }
+
+  /**
+   * Con STORE_CREDIT abona el monto al saldo a favor del cliente
+   */
+  private async issueStoreCredit(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    refundId: string,
+    amountUsd: Prisma.Decimal,
+    dto: ProcessRefundDto,
+  ) {
+    if (dto.method !== PaymentMethod.STORE_CREDIT) {
+      return;
+    }
+
+    await this.storeCreditService.credit(tx, userId, amountUsd, {
+      type: StoreCreditEntryType.REFUND,
+      refundId,
+      note: dto.notes,
+    });
+  }
+
+  private assertCurrency(method: PaymentMethod, currency: Currency) {
+    if (method === PaymentMethod.STORE_CREDIT && currency !== Currency.USD) {
+      throw new BadRequestException('El saldo a favor se abona en USD');
+    }
+  }
+
+  private buildAmounts(dto: CreateRefundDto) {
+    const currency = dto.currency ?? Currency.USD;
+    const amount = new Prisma.Decimal(dto.amount);
+
+    this.assertCurrency(dto.method, currency);
+
+    if (currency === Currency.VES) {
+      const exchangeRate = new Prisma.Decimal(dto.exchangeRate);
+
+      return {
+        amount,
+        currency,
+        exchangeRate,
+        amountUsd: amount.div(exchangeRate).toDecimalPlaces(2),
+      };
+    }
+
+    return {
+      amount,
+      currency,
+      exchangeRate: null,
+      amountUsd: amount,
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { ReturnStatus } from '@prisma/client';
+
+/**
+ * Transiciones de estado permitidas de una devolución o cambio
+ * COMPLETED y REJECTED son estados finales
+ */
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  [ReturnStatus.REQUESTED]: [ReturnStatus.APPROVED, ReturnStatus.REJECTED],
+  [ReturnStatus.APPROVED]: [ReturnStatus.RECEIVED, ReturnStatus.REJECTED],
+  [ReturnStatus.RECEIVED]: [ReturnStatus.COMPLETED, ReturnStatus.REJECTED],
+  [ReturnStatus.COMPLETED]: [],
+  [ReturnStatus.REJECTED]: [],
+};
+
+/**
+ * Días desde la entrega para pedir una devolución o cambio
+ * Configurable con RETURN_WINDOW_DAYS (por defecto 7)
+ */
+export function getReturnWindowDays(): number {
+  const value = Number(process.env.RETURN_WINDOW_DAYS);
+  return Number.isInteger(value) && value > 0 ? value : 7;
+}
@@ -0,0 +1,60 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsInt,
+  IsUUID,
+  Min,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ReturnType } from '@prisma/client';
+
+/**
+ * DTO para pedir una devolución o un cambio (multipart/form-data)
+ * Las fotos van en el campo "photos" (de 1 a 5 imágenes)
+ */
+export class CreateReturnRequestDto {
+  /**
+   * Item de la orden a devolver o cambiar
+   * @example "550e8400-e29b-41d4-a716-446655440000"
+   */
+  @IsUUID('4', { message: 'orderItemId debe ser un UUID válido' })
+  @IsNotEmpty({ message: 'orderItemId es obligatorio' })
+  orderItemId: string;
+
+  /**
+   * RETURN (reembolso) o EXCHANGE (cambio por otra variante)
+   * @example "EXCHANGE"
+   */
+  @IsEnum(ReturnType, { message: 'type debe ser RETURN o EXCHANGE' })
+  type: ReturnType;
+
+  /**
+   * Unidades a devolver o cambiar
+   * @example 1
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'quantity debe ser un número entero' })
+  @Min(1, { message: 'quantity debe ser al menos 1' })
+  quantity: number;
+
+  /**
+   * Motivo de la solicitud
+   * @example "Me quedó pequeña, necesito una talla L"
+   */
+  @IsString({ message: 'reason debe ser un texto' })
+  @IsNotEmpty({ message: 'reason es obligatorio' })
+  @MaxLength(1000, { message: 'reason no puede exceder 1000 caracteres' })
+  reason: string;
+
+  /**
+   * Variante que quiere a cambio (obligatoria si type es EXCHANGE)
+   * Debe ser del mismo producto
+   * @example "660e8400-e29b-41d4-a716-446655440000"
+   */
+  @ValidateIf((dto: CreateReturnRequestDto) => dto.type === ReturnType.EXCHANGE)
+  @IsUUID('4', { message: 'exchangeVariantId debe ser un UUID válido' })
+  exchangeVariantId?: string;
+}
@@ -0,0 +1,38 @@
+import { IsOptional, IsEnum, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ReturnStatus } from '@prisma/client';
+
+/**
+ * DTO para listar devoluciones y cambios
+ * Usado en GET /returns y GET /admin/returns con query params
+ */
+export class QueryReturnsDto {
+  /**
+   * Filtrar por estado
+   * @example "REQUESTED"
+   */
+  @IsEnum(ReturnStatus, { message: 'status debe ser un estado válido' })
+  @IsOptional()
+  status?: ReturnStatus;
+
+  /**
+   * Número de página (para paginación)
+   * @example 1
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'page debe ser un número entero' })
+  @Min(1, { message: 'page debe ser al menos 1' })
+  @IsOptional()
+  page?: number = 1;
+
+  /**
+   * Cantidad de resultados por página
+   * @example 10
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'limit debe ser un número entero' })
+  @Min(1, { message: 'limit debe ser al menos 1' })
+  @Max(50, { message: 'limit no puede ser mayor a 50' })
+  @IsOptional()
+  limit?: number = 10;
+}
@@ -0,0 +1,16 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+/**
+ * DTO para rechazar una devolución o cambio (admin)
+ * El motivo queda visible para el cliente
+ */
+export class RejectReturnDto {
+  /**
+   * Motivo del rechazo
+   * @example "La prenda tiene señales de uso"
+   */
+  @IsString({ message: 'reason debe ser un texto' })
+  @IsNotEmpty({ message: 'reason es obligatorio' })
+  @MaxLength(500, { message: 'reason no puede exceder 500 caracteres' })
+  reason: string;
+}
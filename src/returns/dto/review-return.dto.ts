@@ -0,0 +1,16 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+
+/**
+ * DTO para avanzar una devolución o cambio (admin)
+ * Usado al aprobar, recibir y completar
+ */
+export class ReviewReturnDto {
+  /**
+   * Nota interna (opcional)
+   * @example "Llegó por MRW, etiqueta intacta"
+   */
+  @IsString({ message: 'notes debe ser un texto' })
+  @IsOptional()
+  @MaxLength(500, { message: 'notes no puede exceder 500 caracteres' })
+  notes?: string;
+}
@@ -0,0 +1,63 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFiles,
+  Request,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { ReturnsService } from './returns.service';
+import { CreateReturnRequestDto } from './dto/create-return-request.dto';
+import { QueryReturnsDto } from './dto/query-returns.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthRequest } from '../common/interfaces/auth-request.interface';
+
+/**
+ * Controlador de devoluciones y cambios del cliente
+ * Todos los endpoints requieren autenticación
+ * (la gestión del admin está en /admin/returns)
+ */
+@Controller('returns')
+@UseGuards(JwtAuthGuard)
+export class ReturnsController {
+  constructor(private readonly returnsService: ReturnsService) {}
+
+  /**
+   * POST /returns
+   * Pedir una devolución o un cambio (multipart: photos + orderItemId,
+   * type, quantity, reason, exchangeVariantId)
+   * - Solo items de órdenes entregadas y dentro del plazo
+   */
+  @Post()
+  @UseInterceptors(FilesInterceptor('photos', 5))
+  async create(
+    @Request() req: AuthRequest,
+    @UploadedFiles() files: Express.Multer.File[],
+    @Body() dto: CreateReturnRequestDto,
+  ) {
+    return this.returnsService.create(req.user.id, files, dto);
+  }
+
+  /**
+   * GET /returns
+   * Mis solicitudes de devolución y cambio
+   */
+  @Get()
+  async findMine(@Request() req: AuthRequest, @Query() query: QueryReturnsDto) {
+    return this.returnsService.findMine(req.user.id, query);
+  }
+
+  /**
+   * GET /returns/:id
+   * Detalle de una solicitud (con el reembolso si lo hay)
+   */
+  @Get(':id')
+  async findOne(@Request() req: AuthRequest, @Param('id') id: string) {
+    return this.returnsService.findOneForUser(id, req.user.id);
+  }
+}
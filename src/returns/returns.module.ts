@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ReturnsService } from './returns.service';
+import { ReturnsController } from './returns.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UploadModule } from '../upload/upload.module';
+import { RefundsModule } from '../refunds/refunds.module';
+import { CLOCK, systemClock } from '../common/interfaces/clock.interface';
+
+@Module({
+  imports: [PrismaModule, UploadModule, RefundsModule],
+  controllers: [ReturnsController],
+  providers: [ReturnsService, { provide: CLOCK, useValue: systemClock }],
+  exports: [ReturnsService],
+})
+export class ReturnsModule {}
@@ -0,0 +1,225 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { OrderStatus, Prisma, ReturnStatus, ReturnType } from '@prisma/client';
+import { ReturnsService } from './returns.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { UploadService } from '../upload/upload.service';
+import { RefundsService } from '../refunds/refunds.service';
+import { CLOCK } from '../common/interfaces/clock.interface';
+import { createFakePrisma } from '../common/testing/fake-prisma';
+
+const daysAfter = (date: Date, days: number) =>
+  new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+describe('ReturnsService', () => {
+  let service: ReturnsService;
+  let now: Date;
+  let returnRequest: {
+    id: string;
+    orderId: string;
+    orderItemId: string;
+    type: ReturnType;
+    quantity: number;
+    exchangeVariantId: string | null;
+    status: ReturnStatus;
+    photos: string[];
+  };
+  let stock: Map<string, number>;
+  let requestedQuantity: number;
+
+  const deliveredAt = new Date('2025-11-20T12:00:00Z');
+  const photo = { mimetype: 'image/png' } as Express.Multer.File;
+  const orderItem = {
+    id: 'item-1',
+    orderId: 'order-1',
+    variantId: 'variant-m',
+    quantity: 2,
+    price: new Prisma.Decimal('25.00'),
+    taxAmount: new Prisma.Decimal('8.00'),
+    order: {
+      userId: 'user-1',
+      status: OrderStatus.ENTREGADO,
+      deliveredAt,
+    },
+    variant: { productId: 'product-1' },
+  };
+  const uploadImage = jest.fn();
+  const assertRefundable = jest.fn();
+  const refundCreate = jest.fn<
+    Promise<object>,
+    [{ data: { amountUsd: Prisma.Decimal } }]
+  >();
+
+  beforeEach(async () => {
+    now = daysAfter(deliveredAt, 2);
+    stock = new Map([
+      ['variant-m', 0],
+      ['variant-l', 3],
+    ]);
+    returnRequest = {
+      id: 'return-1',
+      orderId: 'order-1',
+      orderItemId: 'item-1',
+      type: ReturnType.EXCHANGE,
+      quantity: 1,
+      exchangeVariantId: 'variant-l',
+      status: ReturnStatus.RECEIVED,
+      photos: [],
+    };
+    requestedQuantity = 0;
+    uploadImage.mockReset();
+    assertRefundable.mockReset().mockResolvedValue(undefined);
+    refundCreate
+      .mockReset()
+      .mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'refund-1', ...data }),
+      );
+
+    const prisma = createFakePrisma(() => ({
+      orderItem: {
+        findUnique: jest.fn(() => Promise.resolve(orderItem)),
+        findUniqueOrThrow: jest.fn(() => Promise.resolve(orderItem)),
+      },
+      returnRequest: {
+        aggregate: jest.fn(() =>
+          Promise.resolve({ _sum: { quantity: requestedQuantity } }),
+        ),
+        findUnique: jest.fn(() => Promise.resolve(returnRequest)),
+        findUniqueOrThrow: jest.fn(() => Promise.resolve(returnRequest)),
+        updateMany: jest.fn(({ data }: { data: { status: ReturnStatus } }) => {
+          returnRequest.status = data.status;
+          return Promise.resolve({ count: 1 });
+        }),
+      },
+      productVariant: {
+        update: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: string };
+            data: { stock: { increment: number } };
+          }) => {
+            stock.set(where.id, stock.get(where.id) + data.stock.increment);
+            return Promise.resolve({});
+          },
+        ),
+        // Solo simula el descuento condicional; las reactivaciones no importan aquí
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: string; stock?: { gte: number } };
+            data: { stock?: { decrement: number } };
+          }) => {
+            if (!data.stock || !where.stock) {
+              return Promise.resolve({ count: 0 });
+            }
+            const current = stock.get(where.id);
+            if (current < where.stock.gte) {
+              return Promise.resolve({ count: 0 });
+            }
+            stock.set(where.id, current - data.stock.decrement);
+            return Promise.resolve({ count: 1 });
+          },
+        ),
+        findUnique: jest.fn(({ where }: { where: { id: string } }) =>
+          Promise.resolve({ stock: stock.get(where.id), isActive: true }),
+        ),
+      },
+      refund: { create: refundCreate },
+    }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReturnsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: UploadService, useValue: { uploadImage } },
+        { provide: RefundsService, useValue: { assertRefundable } },
+        { provide: CLOCK, useValue: { now: () => now } },
+      ],
+    }).compile();
+
+    service = module.get<ReturnsService>(ReturnsService);
+  });
+
+  it('rechaza solicitudes fuera del plazo desde la entrega', async () => {
+    now = daysAfter(deliveredAt, 8);
+
+    await expect(
+      service.create('user-1', [photo], {
+        orderItemId: 'item-1',
+        type: ReturnType.RETURN,
+        quantity: 1,
+        reason: 'No me gustó',
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('no sube fotos si ya se pidieron todas las unidades', async () => {
+    requestedQuantity = 2;
+
+    await expect(
+      service.create('user-1', [photo], {
+        orderItemId: 'item-1',
+        type: ReturnType.RETURN,
+        quantity: 1,
+        reason: 'No me gustó',
+      }),
+    ).rejects.toThrow(BadRequestException);
+
+    expect(uploadImage).not.toHaveBeenCalled();
+  });
+
+  it('al completar un cambio mueve el stock entre las variantes', async () => {
+    await service.complete('return-1', 'admin-1', {});
+
+    expect(stock.get('variant-m')).toBe(1);
+    expect(stock.get('variant-l')).toBe(2);
+    expect(refundCreate).not.toHaveBeenCalled();
+  });
+
+  it('no completa un cambio si la otra variante se quedó sin stock', async () => {
+    stock.set('variant-l', 0);
+
+    await expect(service.complete('return-1', 'admin-1', {})).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('al completar una devolución crea el reembolso con el IVA de la unidad', async () => {
+    returnRequest.type = ReturnType.RETURN;
+    returnRequest.exchangeVariantId = null;
+
+    const result = await service.complete('return-1', 'admin-1', {});
+
+    // 25.00 + 4.00 de IVA por unidad
+    expect(result).toHaveProperty('refund');
+    expect(refundCreate.mock.calls[0][0].data.amountUsd.toFixed(2)).toBe(
+      '29.00',
+    );
+    expect(stock.get('variant-m')).toBe(1);
+  });
+
+  it('no reembolsa más de lo pagado si ya hubo reembolsos en la orden', async () => {
+    returnRequest.type = ReturnType.RETURN;
+    returnRequest.exchangeVariantId = null;
+    assertRefundable.mockRejectedValue(
+      new BadRequestException('El reembolso supera lo pagado'),
+    );
+
+    await expect(service.complete('return-1', 'admin-1', {})).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(refundCreate).not.toHaveBeenCalled();
+  });
+
+  it('no permite completar una solicitud que no se ha recibido', async () => {
+    returnRequest.status = ReturnStatus.APPROVED;
+
+    await expect(service.complete('return-1', 'admin-1', {})).rejects.toThrow(
+      ConflictException,
+    );
+  });
+});
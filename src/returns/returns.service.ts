@@ -0,0 +1,544 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import {
+  OrderStatus,
+  Prisma,
+  ReturnRequest,
+  ReturnStatus,
+  ReturnType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { UploadService } from '../upload/upload.service';
+import { UploadResponseDto } from '../upload/dto/upload-response.dto';
+import { RefundsService } from '../refunds/refunds.service';
+import { CLOCK, Clock } from '../common/interfaces/clock.interface';
+import { CreateReturnRequestDto } from './dto/create-return-request.dto';
+import { QueryReturnsDto } from './dto/query-returns.dto';
+import { ReviewReturnDto } from './dto/review-return.dto';
+import { RejectReturnDto } from './dto/reject-return.dto';
+import {
+  RETURN_STATUS_TRANSITIONS,
+  getReturnWindowDays,
+} from './constants/return.constants';
+
+const RETURN_PHOTOS_FOLDER = 'delcarajo/returns';
+const MAX_RETURN_PHOTOS = 5;
+
+const RETURN_INCLUDE = {
+  order: { select: { id: true, orderNumber: true, deliveredAt: true } },
+  orderItem: {
+    select: {
+      id: true,
+      productName: true,
+      variantSize: true,
+      variantColor: true,
+      variantGender: true,
+      price: true,
+      quantity: true,
+    },
+  },
+  exchangeVariant: {
+    select: { id: true, sku: true, size: true, color: true, gender: true },
+  },
+  refund: true,
+} satisfies Prisma.ReturnRequestInclude;
+
+/**
+ * Devoluciones y cambios de talla (RMA)
+ * - El cliente pide la devolución o el cambio de un item con fotos,
+ *   dentro de RETURN_WINDOW_DAYS desde la entrega
+ * - El admin aprueba, marca como recibido y completa (o rechaza)
+ * - Al completar un cambio el stock pasa de una variante a la otra;
+ *   al completar una devolución se crea el reembolso
+ */
+@Injectable()
+export class ReturnsService {
+  private readonly logger = new Logger(ReturnsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private uploadService: UploadService,
+    private refundsService: RefundsService,
+    @Inject(CLOCK) private clock: Clock,
+  ) {}
+
+  /**
+   * Pedir una devolución o un cambio
+   */
+  async create(
+    userId: string,
+    files: Express.Multer.File[],
+    dto: CreateReturnRequestDto,
+  ) {
+    if (!files || files.length === 0) {
+      throw new BadRequestException(
+        'Debes adjuntar al menos una foto del producto',
+      );
+    }
+
+    if (files.length > MAX_RETURN_PHOTOS) {
+      throw new BadRequestException(
+        `Máximo ${MAX_RETURN_PHOTOS} fotos por solicitud`,
+      );
+    }
+
+    const item = await this.prisma.orderItem.findUnique({
+      where: { id: dto.orderItemId },
+      include: {
+        order: { select: { userId: true, status: true, deliveredAt: true } },
+        variant: { select: { productId: true } },
+      },
+    });
+
+    if (!item) {
+      throw new NotFoundException('Item de orden no encontrado');
+    }
+
+    if (item.order.userId !== userId) {
+      throw new ForbiddenException(
+        'No tienes permiso para modificar esta orden',
+      );
+    }
+
+    if (
+      item.order.status !== OrderStatus.ENTREGADO ||
+      !item.order.deliveredAt
+    ) {
+      throw new BadRequestException(
+        'Solo se pueden devolver o cambiar productos de órdenes entregadas',
+      );
+    }
+
+    const windowDays = getReturnWindowDays();
+    const deadline = new Date(
+      item.order.deliveredAt.getTime() + windowDays * 24 * 60 * 60 * 1000,
+    );
+
+    if (this.clock.now() > deadline) {
+      throw new BadRequestException(
+        `El plazo para devoluciones y cambios es de ${windowDays} días desde la entrega`,
+      );
+    }
+
+    if (dto.type === ReturnType.EXCHANGE && dto.exchangeVariantId) {
+      await this.assertExchangeVariant(
+        dto.exchangeVariantId,
+        item.variantId,
+        item.variant.productId,
+        dto.quantity,
+      );
+    }
+
+    const created = await this.prisma.$transaction(async (tx) => {
+      // Bloquea el item: dos solicitudes simultáneas no pueden sumar
+      // más unidades de las compradas
+      await tx.$queryRaw`SELECT "id" FROM "OrderItem" WHERE "id" = ${item.id} FOR UPDATE`;
+
+      // Las solicitudes rechazadas no cuentan contra lo comprado
+      const requested = await tx.returnRequest.aggregate({
+        where: {
+          orderItemId: item.id,
+          status: { not: ReturnStatus.REJECTED },
+        },
+        _sum: { quantity: true },
+      });
+      const available = item.quantity - (requested._sum.quantity ?? 0);
+
+      if (dto.quantity > available) {
+        throw new BadRequestException(
+          available > 0
+            ? `Solo puedes devolver ${available} unidad(es) de este producto`
+            : 'Ya existe una solicitud por todas las unidades de este producto',
+        );
+      }
+
+      return tx.returnRequest.create({
+        data: {
+          orderId: item.orderId,
+          orderItemId: item.id,
+          userId,
+          type: dto.type,
+          quantity: dto.quantity,
+          reason: dto.reason,
+          exchangeVariantId:
+            dto.type === ReturnType.EXCHANGE ? dto.exchangeVariantId : null,
+        },
+      });
+    });
+
+    // Las fotos se suben con las unidades ya reservadas; si algo falla
+    // se borran las subidas y la solicitud
+    const uploads: UploadResponseDto[] = [];
+
+    try {
+      for (const file of files) {
+        uploads.push(
+          await this.uploadService.uploadImage(file, {
+            folder: RETURN_PHOTOS_FOLDER,
+            private: true,
+          }),
+        );
+      }
+
+      const returnRequest = await this.prisma.returnRequest.update({
+        where: { id: created.id },
+        data: { photos: uploads.map((upload) => upload.publicId) },
+        include: RETURN_INCLUDE,
+      });
+
+      return {
+        ...this.withPhotoUrls(returnRequest),
+        message: 'Solicitud recibida. Te avisaremos cuando sea revisada',
+      };
+    } catch (error) {
+      for (const upload of uploads) {
+        await this.uploadService.deleteImage(upload.publicId).catch(() => {
+          this.logger.warn(`No se pudo eliminar ${upload.publicId}`);
+        });
+      }
+      await this.prisma.returnRequest
+        .delete({ where: { id: created.id } })
+        .catch(() => {
+          this.logger.warn(`No se pudo eliminar la solicitud ${created.id}`);
+        });
+      throw error;
+    }
+  }
+
+  /**
+   * Solicitudes del usuario (paginadas)
+   */
+  async findMine(userId: string, query: QueryReturnsDto) {
+    return this.paginate({ userId, status: query.status }, query);
+  }
+
+  /**
+   * Detalle de una solicitud del usuario
+   */
+  async findOneForUser(id: string, userId: string) {
+    const returnRequest = await this.findOrThrow(id);
+
+    if (returnRequest.userId !== userId) {
+      throw new ForbiddenException('No tienes permiso para ver esta solicitud');
+    }
+
+    return this.withPhotoUrls(returnRequest);
+  }
+
+  /**
+   * Todas las solicitudes (admin), las más antiguas primero
+   */
+  async findAll(query: QueryReturnsDto) {
+    return this.paginate({ status: query.status }, query, 'asc');
+  }
+
+  /**
+   * Aprobar: el cliente puede enviar el producto
+   */
+  async approve(id: string, adminId: string, dto: ReviewReturnDto) {
+    return this.prisma.$transaction((tx) =>
+      this.transition(tx, id, ReturnStatus.APPROVED, {
+        reviewedById: adminId,
+        approvedAt: new Date(),
+        ...(dto.notes && { adminNotes: dto.notes }),
+      }),
+    );
+  }
+
+  /**
+   * Marcar el producto devuelto como recibido en tienda
+   */
+  async receive(id: string, adminId: string, dto: ReviewReturnDto) {
+    return this.prisma.$transaction((tx) =>
+      this.transition(tx, id, ReturnStatus.RECEIVED, {
+        reviewedById: adminId,
+        receivedAt: new Date(),
+        ...(dto.notes && { adminNotes: dto.notes }),
+      }),
+    );
+  }
+
+  /**
+   * Rechazar una solicitud que no se ha completado
+   */
+  async reject(id: string, adminId: string, dto: RejectReturnDto) {
+    return this.prisma.$transaction((tx) =>
+      this.transition(tx, id, ReturnStatus.REJECTED, {
+        reviewedById: adminId,
+        rejectedAt: new Date(),
+        rejectionReason: dto.reason,
+      }),
+    );
+  }
+
+  /**
+   * Completar una solicitud recibida
+   * - La unidad devuelta vuelve al stock de su variante
+   * - EXCHANGE: se descuenta la variante entregada a cambio
+   * - RETURN: se crea el reembolso (precio + IVA de las unidades; el
+   *   envío y el IGTF no se reembolsan), sin superar lo pagado menos lo
+   *   ya reembolsado
+   */
+  async complete(id: string, adminId: string, dto: ReviewReturnDto) {
+    return this.prisma.$transaction(async (tx) => {
+      const returnRequest = await this.transition(
+        tx,
+        id,
+        ReturnStatus.COMPLETED,
+        {
+          reviewedById: adminId,
+          completedAt: new Date(),
+          ...(dto.notes && { adminNotes: dto.notes }),
+        },
+      );
+
+      const item = await tx.orderItem.findUniqueOrThrow({
+        where: { id: returnRequest.orderItemId },
+      });
+
+      await this.restock(tx, item.variantId, returnRequest.quantity);
+
+      if (returnRequest.type === ReturnType.EXCHANGE) {
+        if (!returnRequest.exchangeVariantId) {
+          throw new ConflictException('La variante del cambio ya no existe');
+        }
+
+        await this.takeStock(
+          tx,
+          returnRequest.exchangeVariantId,
+          returnRequest.quantity,
+        );
+
+        return returnRequest;
+      }
+
+      // Queda PENDING hasta que el admin indique cómo se devolvió
+      const unitTax = item.taxAmount.div(item.quantity);
+      const amountUsd = item.price
+        .add(unitTax)
+        .mul(returnRequest.quantity)
+        .toDecimalPlaces(2);
+
+      // Puede haber reembolsos directos previos sobre la misma orden
+      await this.refundsService.assertRefundable(
+        tx,
+        returnRequest.orderId,
+        amountUsd,
+      );
+
+      const refund = await tx.refund.create({
+        data: {
+          orderId: returnRequest.orderId,
+          returnRequestId: returnRequest.id,
+          amount: amountUsd,
+          amountUsd,
+        },
+      });
+
+      return { ...returnRequest, refund };
+    });
+  }
+
+  /**
+   * Cambia el estado si la transición está permitida
+   * La actualización es condicional al estado leído: si otro admin la movió
+   * antes, responde 409 en lugar de pisar su cambio
+   */
+  private async transition(
+    tx: Prisma.TransactionClient,
+    id: string,
+    to: ReturnStatus,
+    data: Prisma.ReturnRequestUncheckedUpdateManyInput,
+  ) {
+    const current = await tx.returnRequest.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+
+    if (!current) {
+      throw new NotFoundException(`Solicitud con ID "${id}" no encontrada`);
+    }
+
+    const allowedStatuses = RETURN_STATUS_TRANSITIONS[current.status];
+
+    if (!allowedStatuses.includes(to)) {
+      throw new ConflictException({
+        statusCode: 409,
+        error: 'Conflict',
+        message: allowedStatuses.length
+          ? `No se puede pasar de ${current.status} a ${to}. Estados permitidos: ${allowedStatuses.join(', ')}`
+          : `La solicitud está en ${current.status} y ya no puede cambiar de estado`,
+        currentStatus: current.status,
+        allowedStatuses,
+      });
+    }
+
+    const { count } = await tx.returnRequest.updateMany({
+      where: { id, status: current.status },
+      data: { ...data, status: to },
+    });
+
+    if (count === 0) {
+      throw new ConflictException(
+        'La solicitud cambió mientras se procesaba. Intenta de nuevo',
+      );
+    }
+
+    return tx.returnRequest.findUniqueOrThrow({
+      where: { id },
+      include: RETURN_INCLUDE,
+    });
+  }
+
+  /**
+   * Devuelve unidades al stock y reactiva la variante si se había
+   * desactivado sola por quedar en 0
+   */
+  private async restock(
+    tx: Prisma.TransactionClient,
+    variantId: string,
+    quantity: number,
+  ) {
+    await tx.productVariant.update({
+      where: { id: variantId },
+      data: { stock: { increment: quantity } },
+    });
+
+    await tx.productVariant.updateMany({
+      where: {
+        id: variantId,
+        isActive: false,
+        autoDeactivatedAt: { not: null },
+        stock: { gt: 0 },
+      },
+      data: { isActive: true, autoDeactivatedAt: null },
+    });
+  }
+
+  /**
+   * Descuenta unidades de forma condicional (stock >= cantidad), igual que
+   * al crear una orden; desactiva la variante si llega a 0
+   */
+  private async takeStock(
+    tx: Prisma.TransactionClient,
+    variantId: string,
+    quantity: number,
+  ) {
+    const { count } = await tx.productVariant.updateMany({
+      where: { id: variantId, isActive: true, stock: { gte: quantity } },
+      data: { stock: { decrement: quantity } },
+    });
+
+    if (count === 0) {
+      const current = await tx.productVariant.findUnique({
+        where: { id: variantId },
+        select: { stock: true, isActive: true },
+      });
+
+      throw new ConflictException(
+        current?.isActive
+          ? `Stock insuficiente para el cambio. Disponible: ${current.stock}`
+          : 'La variante del cambio ya no está disponible',
+      );
+    }
+
+    await tx.productVariant.updateMany({
+      where: { id: variantId, stock: 0, isActive: true },
+      data: { isActive: false, autoDeactivatedAt: new Date() },
+    });
+  }
+
+  /**
+   * La variante del cambio debe ser otra del mismo producto, activa y con stock
+   */
+  private async assertExchangeVariant(
+    exchangeVariantId: string,
+    variantId: string,
+    productId: string,
+    quantity: number,
+  ) {
+    if (exchangeVariantId === variantId) {
+      throw new BadRequestException(
+        'La variante del cambio debe ser distinta a la comprada',
+      );
+    }
+
+    const variant = await this.prisma.productVariant.findUnique({
+      where: { id: exchangeVariantId },
+      select: { productId: true, isActive: true, stock: true },
+    });
+
+    if (!variant || variant.productId !== productId) {
+      throw new BadRequestException(
+        'Solo se puede cambiar por otra variante del mismo producto',
+      );
+    }
+
+    if (!variant.isActive || variant.stock < quantity) {
+      throw new BadRequestException(
+        'La variante del cambio no tiene stock suficiente',
+      );
+    }
+  }
+
+  private async paginate(
+    where: Prisma.ReturnRequestWhereInput,
+    query: QueryReturnsDto,
+    order: Prisma.SortOrder = 'desc',
+  ) {
+    const { page = 1, limit = 10 } = query;
+
+    const [returns, total] = await Promise.all([
+      this.prisma.returnRequest.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: order },
+        include: RETURN_INCLUDE,
+      }),
+      this.prisma.returnRequest.count({ where }),
+    ]);
+
+    return {
+      data: returns.map((returnRequest) => this.withPhotoUrls(returnRequest)),
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private async findOrThrow(id: string) {
+    const returnRequest = await this.prisma.returnRequest.findUnique({
+      where: { id },
+      include: RETURN_INCLUDE,
+    });
+
+    if (!returnRequest) {
+      throw new NotFoundException(`Solicitud con ID "${id}" no encontrada`);
+    }
+
+    return returnRequest;
+  }
+
+  /**
+   * Las fotos están en una carpeta privada: se exponen con URL firmada
+   */
+  private withPhotoUrls<T extends ReturnRequest>(returnRequest: T) {
+    return {
+      ...returnRequest,
+      photoUrls: returnRequest.photos.map((publicId) =>
+        this.uploadService.getPrivateImageUrl(publicId),
+      ),
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsInt,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { ShippingCarrier } from '@prisma/client';
+
+/**
+ * DTO para crear un método de envío
+ */
+export class CreateShippingMethodDto {
+  /**
+   * Nombre visible para el cliente
+   * @example "MRW - Oficina"
+   */
+  @IsString({ message: 'El nombre debe ser un texto' })
+  @IsNotEmpty({ message: 'El nombre es obligatorio' })
+  @MaxLength(100, { message: 'El nombre no puede exceder 100 caracteres' })
+  name: string;
+
+  /**
+   * Descripción (opcional)
+   * @example "Retira en la oficina MRW más cercana"
+   */
+  @IsString({ message: 'La descripción debe ser un texto' })
+  @IsOptional()
+  description?: string;
+
+  /**
+   * Empresa o modalidad de envío
+   * @example "MRW"
+   */
+  @IsEnum(ShippingCarrier, {
+    message: 'carrier debe ser un transportista válido',
+  })
+  carrier: ShippingCarrier;
+
+  /**
+   * Tarifa fija en USD para las direcciones fuera de sus zonas
+   * Sin defaultFee, el método solo está disponible en sus zonas
+   * @example 5
+   */
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'defaultFee debe ser un número con máximo 2 decimales' },
+  )
+  @Min(0, { message: 'defaultFee no puede ser negativo' })
+  @IsOptional()
+  defaultFee?: number | null;
+
+  /**
+   * Tiempo estimado de entrega (texto para el cliente)
+   * @example "2 a 4 días hábiles"
+   */
+  @IsString({ message: 'estimatedDelivery debe ser un texto' })
+  @IsOptional()
+  @MaxLength(100, {
+    message: 'estimatedDelivery no puede exceder 100 caracteres',
+  })
+  estimatedDelivery?: string;
+
+  /**
+   * Orden de visualización
+   * @example 1
+   */
+  @IsInt({ message: 'El orden debe ser un número entero' })
+  @Min(0, { message: 'El orden debe ser mayor o igual a 0' })
+  @IsOptional()
+  order?: number;
+}
@@ -0,0 +1,95 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsInt,
+  Min,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { DeliveryFeeType } from '@prisma/client';
+
+/**
+ * Zona de entrega de un método de envío
+ * Sin municipality la zona cubre todo el estado
+ */
+export class DeliveryZoneDto {
+  /**
+   * Estado (como en Address.state)
+   * @example "Zulia"
+   */
+  @IsString({ message: 'state debe ser un texto' })
+  @IsNotEmpty({ message: 'state es obligatorio' })
+  @MaxLength(100, { message: 'state no puede exceder 100 caracteres' })
+  state: string;
+
+  /**
+   * Municipio (como en Address.municipality)
+   * @example "Maracaibo"
+   */
+  @IsString({ message: 'municipality debe ser un texto' })
+  @IsOptional()
+  @MaxLength(100, { message: 'municipality no puede exceder 100 caracteres' })
+  municipality?: string;
+
+  /**
+   * Tipo de tarifa (por defecto FLAT)
+   * @example "WEIGHT"
+   */
+  @IsEnum(DeliveryFeeType, { message: 'feeType debe ser FLAT o WEIGHT' })
+  @IsOptional()
+  feeType?: DeliveryFeeType;
+
+  /**
+   * Tarifa base en USD
+   * @example 5
+   */
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'baseFee debe ser un número con máximo 2 decimales' },
+  )
+  @Min(0, { message: 'baseFee no puede ser negativo' })
+  baseFee: number;
+
+  /**
+   * USD por kg (o fracción) por encima de includedGrams
+   * Obligatorio si feeType es WEIGHT
+   * @example 1.5
+   */
+  @ValidateIf((o: DeliveryZoneDto) => o.feeType === DeliveryFeeType.WEIGHT)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'feePerKg debe ser un número con máximo 2 decimales' },
+  )
+  @Min(0, { message: 'feePerKg no puede ser negativo' })
+  feePerKg?: number;
+
+  /**
+   * Gramos incluidos en la tarifa base (solo WEIGHT)
+   * @example 1000
+   */
+  @IsInt({ message: 'includedGrams debe ser un número entero' })
+  @Min(0, { message: 'includedGrams no puede ser negativo' })
+  @IsOptional()
+  includedGrams?: number;
+
+  /**
+   * Días mínimos estimados de entrega
+   * @example 2
+   */
+  @IsInt({ message: 'estimatedDaysMin debe ser un número entero' })
+  @Min(0, { message: 'estimatedDaysMin no puede ser negativo' })
+  @IsOptional()
+  estimatedDaysMin?: number;
+
+  /**
+   * Días máximos estimados de entrega
+   * @example 4
+   */
+  @IsInt({ message: 'estimatedDaysMax debe ser un número entero' })
+  @Min(0, { message: 'estimatedDaysMax no puede ser negativo' })
+  @IsOptional()
+  estimatedDaysMax?: number;
+}
@@ -0,0 +1,25 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DTO para listar métodos de envío disponibles
+ * Usado en GET /shipping-methods con query params
+ */
+export class QueryShippingMethodsDto {
+  /**
+   * Estado de destino: solo métodos con cobertura y su zona ahí
+   * @example "Zulia"
+   */
+  @IsString({ message: 'state debe ser un texto' })
+  @IsOptional()
+  @MaxLength(100, { message: 'state no puede exceder 100 caracteres' })
+  state?: string;
+
+  /**
+   * Municipio de destino (junto con state)
+   * @example "Maracaibo"
+   */
+  @IsString({ message: 'municipality debe ser un texto' })
+  @IsOptional()
+  @MaxLength(100, { message: 'municipality no puede exceder 100 caracteres' })
+  municipality?: string;
+}
@@ -0,0 +1,18 @@
+import { IsArray, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { DeliveryZoneDto } from './delivery-zone.dto';
+
+/**
+ * DTO para reemplazar las zonas de entrega de un método de envío
+ * Las direcciones fuera de las zonas usan defaultFee (o quedan sin cobertura)
+ */
+export class SetDeliveryZonesDto {
+  /**
+   * Zonas por estado o municipio
+   * @example [{ "state": "Zulia", "baseFee": 6 }, { "state": "Zulia", "municipality": "Maracaibo", "feeType": "WEIGHT", "baseFee": 3, "feePerKg": 1, "includedGrams": 1000 }]
+   */
+  @IsArray({ message: 'zones debe ser una lista' })
+  @ValidateNested({ each: true })
+  @Type(() => DeliveryZoneDto)
+  zones: DeliveryZoneDto[];
+}
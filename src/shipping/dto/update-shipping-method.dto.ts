@@ -0,0 +1,18 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateShippingMethodDto } from './create-shipping-method.dto';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+/**
+ * DTO para actualizar un método de envío
+ */
+export class UpdateShippingMethodDto extends PartialType(
+  CreateShippingMethodDto,
+) {
+  /**
+   * Estado activo/inactivo del método (soft delete)
+   * @example true
+   */
+  @IsBoolean({ message: 'isActive debe ser verdadero o falso' })
+  @IsOptional()
+  isActive?: boolean;
+}
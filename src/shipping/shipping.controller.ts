@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { ShippingService } from './shipping.service';
+import { CreateShippingMethodDto } from './dto/create-shipping-method.dto';
+import { UpdateShippingMethodDto } from './dto/update-shipping-method.dto';
+import { SetDeliveryZonesDto } from './dto/set-delivery-zones.dto';
+import { QueryShippingMethodsDto } from './dto/query-shipping-methods.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+
+@Controller('shipping-methods')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPER_ADMIN)
+export class ShippingController {
+  constructor(private readonly shippingService: ShippingService) {}
+
+  /**
+   * Métodos de envío disponibles (con su zona si se indica el destino)
+   * @route GET /shipping-methods?state=Zulia&municipality=Maracaibo
+   */
+  @Get()
+  @Public()
+  findAvailable(@Query() query: QueryShippingMethodsDto) {
+    return this.shippingService.findAvailable(query);
+  }
+
+  /**
+   * Todos los métodos con sus zonas, incluidos los inactivos
+   * @route GET /shipping-methods/all
+   */
+  @Get('all')
+  findAll() {
+    return this.shippingService.findAll();
+  }
+
+  /**
+   * Crear un método de envío
+   * @route POST /shipping-methods
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(@Body() dto: CreateShippingMethodDto) {
+    return this.shippingService.create(dto);
+  }
+
+  /**
+   * Actualizar un método de envío
+   * @route PATCH /shipping-methods/:id
+   */
+  @Patch(':id')
+  update(@Param('id') id: string, @Body() dto: UpdateShippingMethodDto) {
+    return this.shippingService.update(id, dto);
+  }
+
+  /**
+   * Reemplazar las zonas de entrega
+   * @route PUT /shipping-methods/:id/zones
+   */
+  @Put(':id/zones')
+  setZones(@Param('id') id: string, @Body() dto: SetDeliveryZonesDto) {
+    return this.shippingService.setZones(id, dto);
+  }
+
+  /**
+   * Desactivar un método de envío (soft delete)
+   * @route DELETE /shipping-methods/:id
+   */
+  @Delete(':id')
+  remove(@Param('id') id: string) {
+    return this.shippingService.remove(id);
+  }
+}
@@ -0,0 +1,249 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { DeliveryZone, Prisma, ShippingMethod } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateShippingMethodDto } from './dto/create-shipping-method.dto';
+import { UpdateShippingMethodDto } from './dto/update-shipping-method.dto';
+import { SetDeliveryZonesDto } from './dto/set-delivery-zones.dto';
+import { QueryShippingMethodsDto } from './dto/query-shipping-methods.dto';
+import { normalizeState } from './utils/state.util';
+import {
+  Destination,
+  calculateDeliveryFee,
+  findDeliveryZone,
+} from './utils/delivery-fee.util';
+
+type MethodWithZones = ShippingMethod & { zones: DeliveryZone[] };
+
+const ZONES_ORDER_BY: Prisma.DeliveryZoneOrderByWithRelationInput[] = [
+  { state: 'asc' },
+  { municipality: 'asc' },
+];
+
+/**
+ * Métodos de envío y zonas de entrega
+ * - Cada método tiene zonas por estado o municipio y una tarifa por defecto opcional
+ * - El costo se calcula con la dirección de entrega y el peso del paquete
+ */
+@Injectable()
+export class ShippingService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Métodos activos para el cliente
+   * Con state (y municipality): solo los que llegan ahí, con la zona que aplica
+   */
+  async findAvailable(query: QueryShippingMethodsDto) {
+    const methods = await this.prisma.shippingMethod.findMany({
+      where: { isActive: true },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+      include: { zones: { orderBy: ZONES_ORDER_BY } },
+    });
+
+    if (!query.state) {
+      return methods;
+    }
+
+    const destination = {
+      state: query.state,
+      municipality: query.municipality,
+    };
+
+    return methods
+      .map(({ zones, ...method }) => ({
+        ...method,
+        zone: findDeliveryZone(zones, destination),
+      }))
+      .filter((method) => method.zone !== null || method.defaultFee !== null);
+  }
+
+  /**
+   * Todos los métodos, incluidos los inactivos (admin)
+   */
+  async findAll() {
+    return this.prisma.shippingMethod.findMany({
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+      include: { zones: { orderBy: ZONES_ORDER_BY } },
+    });
+  }
+
+  /**
+   * Crear un método de envío
+   */
+  async create(dto: CreateShippingMethodDto) {
+    return this.prisma.shippingMethod.create({
+      data: dto,
+      include: { zones: true },
+    });
+  }
+
+  /**
+   * Actualizar un método de envío
+   */
+  async update(id: string, dto: UpdateShippingMethodDto) {
+    await this.findMethodOrThrow(id);
+
+    return this.prisma.shippingMethod.update({
+      where: { id },
+      data: dto,
+      include: { zones: true },
+    });
+  }
+
+  /**
+   * Desactivar un método de envío (soft delete)
+   * Las órdenes que ya lo usan lo conservan
+   */
+  async remove(id: string) {
+    await this.findMethodOrThrow(id);
+
+    return this.prisma.shippingMethod.update({
+      where: { id },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Reemplazar las zonas de entrega de un método
+   */
+  async setZones(id: string, dto: SetDeliveryZonesDto) {
+    await this.findMethodOrThrow(id);
+
+    const seen = new Set<string>();
+    for (const zone of dto.zones) {
+      const label = zone.municipality
+        ? `${zone.municipality} (${zone.state})`
+        : zone.state;
+      const key = [
+        normalizeState(zone.state),
+        zone.municipality ? normalizeState(zone.municipality) : '',
+      ].join('|');
+
+      if (seen.has(key)) {
+        throw new BadRequestException(`La zona "${label}" está repetida`);
+      }
+      seen.add(key);
+
+      if (
+        zone.estimatedDaysMin !== undefined &&
+        zone.estimatedDaysMax !== undefined &&
+        zone.estimatedDaysMin > zone.estimatedDaysMax
+      ) {
+        throw new BadRequestException(
+          `En "${label}" los días mínimos no pueden superar a los máximos`,
+        );
+      }
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.deliveryZone.deleteMany({ where: { shippingMethodId: id } });
+
+      await tx.deliveryZone.createMany({
+        data: dto.zones.map((zone) => ({
+          ...zone,
+          shippingMethodId: id,
+          state: zone.state.trim(),
+          municipality: zone.municipality?.trim() || null,
+        })),
+      });
+
+      return tx.shippingMethod.findUniqueOrThrow({
+        where: { id },
+        include: { zones: { orderBy: ZONES_ORDER_BY } },
+      });
+    });
+  }
+
+  /**
+   * Costo de envío de un método a un destino para un paquete de weightGrams
+   * Acepta el cliente de una transacción para usarse al crear la orden
+   */
+  async quote(
+    shippingMethodId: string,
+    destination: Destination,
+    weightGrams: number,
+    client: Prisma.TransactionClient = this.prisma,
+  ) {
+    const method = await client.shippingMethod.findFirst({
+      where: { id: shippingMethodId, isActive: true },
+      include: { zones: true },
+    });
+
+    if (!method) {
+      throw new BadRequestException('Método de envío no disponible');
+    }
+
+    const quote = this.resolveQuote(method, destination, weightGrams);
+
+    if (!quote) {
+      throw new BadRequestException(
+        `${method.name} no tiene cobertura en ${destination.municipality ? `${destination.municipality}, ` : ''}${destination.state}`,
+      );
+    }
+
+    return { method, ...quote };
+  }
+
+  /**
+   * Todos los métodos activos con cobertura en el destino y su costo
+   */
+  async quoteAll(destination: Destination, weightGrams: number) {
+    const methods = await this.prisma.shippingMethod.findMany({
+      where: { isActive: true },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+      include: { zones: true },
+    });
+
+    return methods.flatMap((method) => {
+      const quote = this.resolveQuote(method, destination, weightGrams);
+      return quote ? [{ method, ...quote }] : [];
+    });
+  }
+
+  /**
+   * Tarifa y días de la zona que aplica, o la tarifa por defecto
+   * null si no hay cobertura
+   */
+  private resolveQuote(
+    method: MethodWithZones,
+    destination: Destination,
+    weightGrams: number,
+  ) {
+    const zone = findDeliveryZone(method.zones, destination);
+
+    if (zone) {
+      return {
+        fee: calculateDeliveryFee(zone, weightGrams),
+        estimatedDaysMin: zone.estimatedDaysMin,
+        estimatedDaysMax: zone.estimatedDaysMax,
+      };
+    }
+
+    if (method.defaultFee === null) {
+      return null;
+    }
+
+    return {
+      fee: method.defaultFee,
+      estimatedDaysMin: null,
+      estimatedDaysMax: null,
+    };
+  }
+
+  private async findMethodOrThrow(id: string) {
+    const method = await this.prisma.shippingMethod.findUnique({
+      where: { id },
+    });
+
+    if (!method) {
+      throw new NotFoundException(
+        `Método de envío con ID "${id}" no encontrado`,
+      );
+    }
+
+    return method;
+  }
+}
@@ -0,0 +1,54 @@
+import { DeliveryFeeType, Prisma } from '@prisma/client';
+import {
+  calculateDeliveryFee,
+  calculateWeightGrams,
+  findDeliveryZone,
+} from './delivery-fee.util';
+
+describe('delivery-fee.util', () => {
+  const zones = [
+    { id: 'zulia', state: 'Zulia', municipality: null },
+    { id: 'maracaibo', state: 'Zulia', municipality: 'Maracaibo' },
+    { id: 'merida', state: 'Mérida', municipality: null },
+  ];
+
+  it('prefiere la zona del municipio sobre la del estado', () => {
+    expect(
+      findDeliveryZone(zones, { state: 'zulia', municipality: 'MARACAIBO' })
+        ?.id,
+    ).toBe('maracaibo');
+    expect(
+      findDeliveryZone(zones, { state: 'Zulia', municipality: 'Cabimas' })?.id,
+    ).toBe('zulia');
+    expect(findDeliveryZone(zones, { state: 'merida' })?.id).toBe('merida');
+    expect(findDeliveryZone(zones, { state: 'Lara' })).toBeNull();
+  });
+
+  it('cobra por kg o fracción sobre los gramos incluidos', () => {
+    const zone = {
+      feeType: DeliveryFeeType.WEIGHT,
+      baseFee: new Prisma.Decimal('3.00'),
+      feePerKg: new Prisma.Decimal('1.50'),
+      includedGrams: 1000,
+    };
+
+    expect(calculateDeliveryFee(zone, 800).toFixed(2)).toBe('3.00');
+    expect(calculateDeliveryFee(zone, 1001).toFixed(2)).toBe('4.50');
+    expect(calculateDeliveryFee(zone, 3000).toFixed(2)).toBe('6.00');
+    expect(
+      calculateDeliveryFee(
+        { ...zone, feeType: DeliveryFeeType.FLAT },
+        3000,
+      ).toFixed(2),
+    ).toBe('3.00');
+  });
+
+  it('usa el peso por defecto para variantes sin peso', () => {
+    expect(
+      calculateWeightGrams([
+        { quantity: 2, weightGrams: 250 },
+        { quantity: 1, weightGrams: null },
+      ]),
+    ).toBe(800);
+  });
+});
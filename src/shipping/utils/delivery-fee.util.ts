@@ -0,0 +1,90 @@
+import { DeliveryFeeType, DeliveryZone, Prisma } from '@prisma/client';
+import { normalizeState } from './state.util';
+
+/**
+ * Destino de un envío (campos de Address)
+ */
+export interface Destination {
+  state: string;
+  municipality?: string | null;
+}
+
+/**
+ * Línea del carrito para calcular el peso del paquete
+ */
+export interface WeighableLine {
+  quantity: number;
+  weightGrams: number | null;
+}
+
+/**
+ * Peso por unidad cuando la variante no lo tiene cargado
+ * Configurable con DEFAULT_ITEM_WEIGHT_GRAMS (por defecto 300 g, una franela)
+ */
+export function getDefaultItemWeightGrams(): number {
+  const value = Number(process.env.DEFAULT_ITEM_WEIGHT_GRAMS);
+  return Number.isInteger(value) && value > 0 ? value : 300;
+}
+
+/**
+ * Peso total en gramos de las líneas
+ */
+export function calculateWeightGrams(lines: WeighableLine[]): number {
+  const fallback = getDefaultItemWeightGrams();
+
+  return lines.reduce(
+    (acc, line) => acc + (line.weightGrams ?? fallback) * line.quantity,
+    0,
+  );
+}
+
+/**
+ * Zona que aplica a un destino: primero la del municipio, luego la del estado
+ * null si el método no tiene zona para ese destino
+ */
+export function findDeliveryZone<
+  T extends Pick<DeliveryZone, 'state' | 'municipality'>,
+>(zones: T[], destination: Destination): T | null {
+  const state = normalizeState(destination.state);
+  const municipality = destination.municipality
+    ? normalizeState(destination.municipality)
+    : null;
+
+  const inState = zones.filter((zone) => normalizeState(zone.state) === state);
+
+  return (
+    (municipality &&
+      inState.find(
+        (zone) =>
+          zone.municipality !== null &&
+          normalizeState(zone.municipality) === municipality,
+      )) ||
+    inState.find((zone) => zone.municipality === null) ||
+    null
+  );
+}
+
+/**
+ * Tarifa de una zona para un paquete
+ * - FLAT: baseFee
+ * - WEIGHT: baseFee + feePerKg por cada kg (o fracción) sobre includedGrams
+ */
+export function calculateDeliveryFee(
+  zone: Pick<
+    DeliveryZone,
+    'feeType' | 'baseFee' | 'feePerKg' | 'includedGrams'
+  >,
+  weightGrams: number,
+): Prisma.Decimal {
+  const baseFee = new Prisma.Decimal(zone.baseFee);
+
+  if (zone.feeType !== DeliveryFeeType.WEIGHT || !zone.feePerKg) {
+    return baseFee;
+  }
+
+  const extraKg = Math.ceil(
+    Math.max(0, weightGrams - zone.includedGrams) / 1000,
+  );
+
+  return baseFee.add(new Prisma.Decimal(zone.feePerKg).mul(extraKg));
+}
@@ -0,0 +1,11 @@
+/**
+ * Normaliza el nombre de un estado o municipio para comparar zonas
+ * "Mérida ", "MERIDA" y "merida" se consideran el mismo estado
+ */
+export function normalizeState(state: string): string {
+  return state
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+}
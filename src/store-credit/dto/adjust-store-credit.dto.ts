@@ -0,0 +1,33 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  MaxLength,
+  NotEquals,
+} from 'class-validator';
+
+/**
+ * DTO para ajustar manualmente el saldo a favor de un usuario (admin)
+ * El ajuste queda en el historial con el admin y el motivo
+ */
+export class AdjustStoreCreditDto {
+  /**
+   * Monto en USD: positivo abona, negativo descuenta
+   * @example 10
+   */
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'amount debe ser un número con máximo 2 decimales' },
+  )
+  @NotEquals(0, { message: 'amount no puede ser 0' })
+  amount: number;
+
+  /**
+   * Motivo del ajuste
+   * @example "Compensación por retraso en la entrega"
+   */
+  @IsString({ message: 'note debe ser un texto' })
+  @IsNotEmpty({ message: 'note es obligatorio' })
+  @MaxLength(500, { message: 'note no puede exceder 500 caracteres' })
+  note: string;
+}
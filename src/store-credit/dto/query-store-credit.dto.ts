@@ -0,0 +1,29 @@
+import { IsOptional, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * DTO para listar los movimientos del saldo a favor
+ * Usado en GET /store-credit y GET /admin/users/:id/store-credit
+ */
+export class QueryStoreCreditDto {
+  /**
+   * Número de página (para paginación)
+   * @example 1
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'page debe ser un número entero' })
+  @Min(1, { message: 'page debe ser al menos 1' })
+  @IsOptional()
+  page?: number = 1;
+
+  /**
+   * Cantidad de resultados por página
+   * @example 10
+   */
+  @Type(() => Number)
+  @IsInt({ message: 'limit debe ser un número entero' })
+  @Min(1, { message: 'limit debe ser al menos 1' })
+  @Max(50, { message: 'limit no puede ser mayor a 50' })
+  @IsOptional()
+  limit?: number = 10;
+}
@@ -0,0 +1,27 @@
+import { Controller, Get, Query, UseGuards, Request } from '@nestjs/common';
+import { StoreCreditService } from './store-credit.service';
+import { QueryStoreCreditDto } from './dto/query-store-credit.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthRequest } from '../common/interfaces/auth-request.interface';
+
+/**
+ * Controlador del saldo a favor del cliente
+ * Todos los endpoints requieren autenticación
+ */
+@Controller('store-credit')
+@UseGuards(JwtAuthGuard)
+export class StoreCreditController {
+  constructor(private readonly storeCreditService: StoreCreditService) {}
+
+  /**
+   * GET /store-credit
+   * Mi saldo a favor y sus movimientos
+   */
+  @Get()
+  async getMine(
+    @Request() req: AuthRequest,
+    @Query() query: QueryStoreCreditDto,
+  ) {
+    return this.storeCreditService.getLedger(req.user.id, query);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { StoreCreditService } from './store-credit.service';
+import { StoreCreditController } from './store-credit.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [StoreCreditController],
+  providers: [StoreCreditService],
+  exports: [StoreCreditService],
+})
+export class StoreCreditModule {}
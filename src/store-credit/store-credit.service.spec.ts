@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma, StoreCreditEntryType } from '@prisma/client';
+import { StoreCreditService } from './store-credit.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { createFakePrisma } from '../common/testing/fake-prisma';
+
+describe('StoreCreditService', () => {
+  let service: StoreCreditService;
+  let balance: Prisma.Decimal;
+  const entryCreate = jest.fn<
+    Promise<object>,
+    [{ data: { amount: Prisma.Decimal; balanceAfter: Prisma.Decimal } }]
+  >();
+
+  beforeEach(async () => {
+    balance = new Prisma.Decimal('20.00');
+    entryCreate
+      .mockReset()
+      .mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'entry-1', ...data }),
+      );
+
+    const prisma = createFakePrisma(() => ({
+      user: {
+        update: jest.fn(
+          ({
+            data,
+          }: {
+            data: { storeCreditBalance: { increment: Prisma.Decimal } };
+          }) => {
+            balance = balance.add(data.storeCreditBalance.increment);
+            return Promise.resolve({ storeCreditBalance: balance });
+          },
+        ),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { storeCreditBalance: { gte: Prisma.Decimal } };
+            data: { storeCreditBalance: { decrement: Prisma.Decimal } };
+          }) => {
+            if (balance.lt(where.storeCreditBalance.gte)) {
+              return Promise.resolve({ count: 0 });
+            }
+            balance = balance.sub(data.storeCreditBalance.decrement);
+            return Promise.resolve({ count: 1 });
+          },
+        ),
+        findUnique: jest.fn(({ where }: { where: { id: string } }) =>
+          Promise.resolve(where.id === 'user-1' ? { id: 'user-1' } : null),
+        ),
+        findUniqueOrThrow: jest.fn(() =>
+          Promise.resolve({ storeCreditBalance: balance }),
+        ),
+      },
+      storeCreditEntry: { create: entryCreate },
+    }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StoreCreditService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<StoreCreditService>(StoreCreditService);
+  });
+
+  it('registra cada movimiento con el saldo resultante', async () => {
+    await service.adjust('user-1', 'admin-1', {
+      amount: -7.5,
+      note: 'Corrección',
+    });
+
+    const { data } = entryCreate.mock.calls[0][0];
+    expect(data.amount.toFixed(2)).toBe('-7.50');
+    expect(data.balanceAfter.toFixed(2)).toBe('12.50');
+  });
+
+  it('no permite consumir más saldo del disponible', async () => {
+    await expect(
+      service.adjust('user-1', 'admin-1', { amount: -25, note: 'Error' }),
+    ).rejects.toThrow(BadRequestException);
+
+    expect(balance.toFixed(2)).toBe('20.00');
+    expect(entryCreate).not.toHaveBeenCalled();
+  });
+
+  it('los abonos suman al saldo', async () => {
+    await service.adjust('user-1', 'admin-1', {
+      amount: 10,
+      note: 'Compensación',
+    });
+
+    expect(balance.toFixed(2)).toBe('30.00');
+    expect(entryCreate.mock.calls[0][0].data).toMatchObject({
+      type: StoreCreditEntryType.ADJUSTMENT,
+    });
+  });
+
+  it('responde 404 si el usuario no existe', async () => {
+    await expect(
+      service.adjust('missing', 'admin-1', {
+        amount: 10,
+        note: 'Compensación',
+      }),
+    ).rejects.toThrow(NotFoundException);
+
+    expect(entryCreate).not.toHaveBeenCalled();
+  });
+});
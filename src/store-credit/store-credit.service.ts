@@ -0,0 +1,168 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma, StoreCreditEntryType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueryStoreCreditDto } from './dto/query-store-credit.dto';
+import { AdjustStoreCreditDto } from './dto/adjust-store-credit.dto';
+
+/**
+ * Datos del movimiento que origina un abono o consumo
+ */
+export interface StoreCreditMovement {
+  type: StoreCreditEntryType;
+  refundId?: string;
+  orderId?: string;
+  createdById?: string;
+  note?: string;
+}
+
+/**
+ * Saldo a favor de los clientes (USD)
+ * - User.storeCreditBalance es el saldo actual
+ * - Cada cambio inserta un StoreCreditEntry con el saldo resultante;
+ *   los movimientos nunca se editan ni se borran
+ * - El saldo se actualiza de forma atómica y nunca queda negativo
+ */
+@Injectable()
+export class StoreCreditService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Saldo y movimientos de un usuario (los más recientes primero)
+   */
+  async getLedger(userId: string, query: QueryStoreCreditDto) {
+    const { page = 1, limit = 10 } = query;
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { storeCreditBalance: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+
+    const where = { userId };
+
+    const [entries, total] = await Promise.all([
+      this.prisma.storeCreditEntry.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          order: { select: { id: true, orderNumber: true } },
+        },
+      }),
+      this.prisma.storeCreditEntry.count({ where }),
+    ]);
+
+    return {
+      balance: user.storeCreditBalance,
+      data: entries,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Ajuste manual de un admin (abono o descuento)
+   */
+  async adjust(userId: string, adminId: string, dto: AdjustStoreCreditDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+
+    const movement: StoreCreditMovement = {
+      type: StoreCreditEntryType.ADJUSTMENT,
+      createdById: adminId,
+      note: dto.note,
+    };
+
+    return this.prisma.$transaction((tx) =>
+      dto.amount > 0
+        ? this.credit(tx, userId, dto.amount, movement)
+        : this.debit(tx, userId, -dto.amount, movement),
+    );
+  }
+
+  /**
+   * Abonar saldo dentro de una transacción abierta
+   */
+  async credit(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    amount: Prisma.Decimal.Value,
+    movement: StoreCreditMovement,
+  ) {
+    const value = new Prisma.Decimal(amount);
+
+    const user = await tx.user.update({
+      where: { id: userId },
+      data: { storeCreditBalance: { increment: value } },
+      select: { storeCreditBalance: true },
+    });
+
+    return this.addEntry(tx, userId, value, user.storeCreditBalance, movement);
+  }
+
+  /**
+   * Consumir saldo dentro de una transacción abierta
+   * Condicional al saldo (balance >= monto): dos consumos simultáneos no
+   * pueden dejarlo negativo
+   */
+  async debit(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    amount: Prisma.Decimal.Value,
+    movement: StoreCreditMovement,
+  ) {
+    const value = new Prisma.Decimal(amount);
+
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, storeCreditBalance: { gte: value } },
+      data: { storeCreditBalance: { decrement: value } },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Saldo a favor insuficiente');
+    }
+
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { storeCreditBalance: true },
+    });
+
+    return this.addEntry(
+      tx,
+      userId,
+      value.neg(),
+      user.storeCreditBalance,
+      movement,
+    );
+  }
+
+  private async addEntry(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    amount: Prisma.Decimal,
+    balanceAfter: Prisma.Decimal,
+    movement: StoreCreditMovement,
+  ) {
+    return tx.storeCreditEntry.create({
+      data: { userId, amount, balanceAfter, ...movement },
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsDateString,
+  Min,
+  Max,
+} from 'class-validator';
+import { TaxType } from '@prisma/client';
+
+/**
+ * DTO para cargar una nueva alícuota (admin)
+ * No se editan las anteriores: la nueva rige desde effectiveFrom
+ */
+export class CreateTaxRateDto {
+  /**
+   * Impuesto
+   * @example "IVA"
+   */
+  @IsEnum(TaxType, { message: 'type debe ser IVA o IGTF' })
+  type: TaxType;
+
+  /**
+   * Alícuota como fracción (0.16 = 16%)
+   * @example 0.16
+   */
+  @IsNumber(
+    { maxDecimalPlaces: 4 },
+    { message: 'rate debe ser un número con máximo 4 decimales' },
+  )
+  @Min(0, { message: 'rate no puede ser negativo' })
+  @Max(1, { message: 'rate no puede ser mayor a 1' })
+  rate: number;
+
+  /**
+   * Fecha desde la que rige (por defecto, ahora)
+   * @example "2026-01-01T00:00:00-04:00"
+   */
+  @IsDateString({}, { message: 'effectiveFrom debe ser una fecha válida' })
+  @IsOptional()
+  effectiveFrom?: string;
+}
@@ -0,0 +1,43 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Request,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { TaxesService } from './taxes.service';
+import { CreateTaxRateDto } from './dto/create-tax-rate.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { AuthRequest } from '../common/interfaces/auth-request.interface';
+
+@Controller('taxes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPER_ADMIN)
+export class TaxesController {
+  constructor(private readonly taxesService: TaxesService) {}
+
+  /**
+   * Alícuotas vigentes e histórico
+   * @route GET /taxes/rates
+   */
+  @Get('rates')
+  findAll() {
+    return this.taxesService.findAll();
+  }
+
+  /**
+   * Cargar una alícuota nueva con su fecha de vigencia
+   * @route POST /taxes/rates
+   */
+  @Post('rates')
+  @HttpCode(HttpStatus.CREATED)
+  create(@Request() req: AuthRequest, @Body() dto: CreateTaxRateDto) {
+    return this.taxesService.create(dto, req.user.id);
+  }
+}
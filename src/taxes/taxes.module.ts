@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TaxesService } from './taxes.service';
+import { TaxesController } from './taxes.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [TaxesController],
+  providers: [TaxesService],
+  exports: [TaxesService],
+})
+export class TaxesModule {}
@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, TaxType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateTaxRateDto } from './dto/create-tax-rate.dto';
+import { TaxRates } from './utils/tax-calculator.util';
+
+/**
+ * Alícuotas de impuestos (IVA e IGTF) con fecha de vigencia
+ * El cálculo en sí está en utils/tax-calculator.util.ts
+ */
+@Injectable()
+export class TaxesService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Alícuotas vigentes en una fecha (0 si no hay ninguna cargada)
+   */
+  async getRates(at: Date = new Date()): Promise<TaxRates> {
+    const [iva, igtf] = await Promise.all(
+      [TaxType.IVA, TaxType.IGTF].map((type) =>
+        this.prisma.taxRate.findFirst({
+          where: { type, effectiveFrom: { lte: at } },
+          orderBy: { effectiveFrom: 'desc' },
+          select: { rate: true },
+        }),
+      ),
+    );
+
+    return {
+      iva: iva?.rate ?? new Prisma.Decimal(0),
+      igtf: igtf?.rate ?? new Prisma.Decimal(0),
+    };
+  }
+
+  /**
+   * Alícuotas vigentes e histórico completo (incluye las programadas a futuro)
+   */
+  async findAll() {
+    const [current, history] = await Promise.all([
+      this.getRates(),
+      this.prisma.taxRate.findMany({
+        orderBy: [{ type: 'asc' }, { effectiveFrom: 'desc' }],
+        include: {
+          createdBy: {
+            select: {
+              id: true,
+              email: true,
+              name: true,
+            },
+          },
+        },
+      }),
+    ]);
+
+    return { current, history };
+  }
+
+  /**
+   * Cargar una alícuota nueva (admin)
+   * Las órdenes ya creadas conservan la alícuota con la que se cobraron
+   */
+  async create(dto: CreateTaxRateDto, adminId: string) {
+    return this.prisma.taxRate.create({
+      data: {
+        type: dto.type,
+        rate: dto.rate,
+        effectiveFrom: dto.effectiveFrom
+          ? new Date(dto.effectiveFrom)
+          : new Date(),
+        createdById: adminId,
+      },
+    });
+  }
+}
@@ -0,0 +1,83 @@
+import { Currency, PaymentMethod, Prisma } from '@prisma/client';
+import { calculateTaxes, resolvePaymentCurrency } from './tax-calculator.util';
+
+describe('calculateTaxes', () => {
+  const rates = {
+    iva: new Prisma.Decimal('0.16'),
+    igtf: new Prisma.Decimal('0.03'),
+  };
+
+  it('aplica IVA por línea y deja las exentas en 0', () => {
+    const taxes = calculateTaxes(
+      [
+        { price: '25.00', quantity: 2, taxExempt: false },
+        { price: '10.00', quantity: 1, taxExempt: true },
+      ],
+      rates,
+      Currency.VES,
+    );
+
+    expect(taxes.lines.map((line) => line.taxAmount.toFixed(2))).toEqual([
+      '8.00',
+      '0.00',
+    ]);
+    expect(taxes.subtotal.toFixed(2)).toBe('60.00');
+    expect(taxes.exemptBase.toFixed(2)).toBe('10.00');
+    expect(taxes.iva.toFixed(2)).toBe('8.00');
+    expect(taxes.igtfRate).toBeNull();
+    expect(taxes.total.toFixed(2)).toBe('68.00');
+  });
+
+  it('cobra IGTF sobre subtotal + IVA cuando se paga en divisas', () => {
+    const taxes = calculateTaxes(
+      [{ price: '19.99', quantity: 3, taxExempt: false }],
+      rates,
+      Currency.USD,
+    );
+
+    // 59.97 + 9.60 de IVA = 69.57; IGTF 3% = 2.09
+    expect(taxes.iva.toFixed(2)).toBe('9.60');
+    expect(taxes.igtf.toFixed(2)).toBe('2.09');
+    expect(taxes.total.toFixed(2)).toBe('71.66');
+  });
+
+  it('incluye el envío en el total y en la base del IGTF', () => {
+    const taxes = calculateTaxes(
+      [{ price: '50.00', quantity: 1, taxExempt: false }],
+      rates,
+      Currency.USD,
+      '8.00',
+    );
+
+    // 50 + 8 de IVA + 8 de envío = 66; IGTF 3% = 1.98
+    expect(taxes.shippingCost.toFixed(2)).toBe('8.00');
+    expect(taxes.igtf.toFixed(2)).toBe('1.98');
+    expect(taxes.total.toFixed(2)).toBe('67.98');
+  });
+
+  it('no cobra IGTF sobre la parte pagada con saldo a favor', () => {
+    const taxes = calculateTaxes(
+      [{ price: '50.00', quantity: 1, taxExempt: false }],
+      rates,
+      Currency.USD,
+      '8.00',
+      '16.00',
+    );
+
+    // 66 - 16 de saldo a favor = 50 en divisas; IGTF 3% = 1.50
+    expect(taxes.igtf.toFixed(2)).toBe('1.50');
+    expect(taxes.total.toFixed(2)).toBe('67.50');
+  });
+
+  it('resuelve la moneda de pago según el método', () => {
+    expect(resolvePaymentCurrency(PaymentMethod.ZELLE, Currency.VES)).toBe(
+      Currency.USD,
+    );
+    expect(resolvePaymentCurrency(PaymentMethod.PAGO_MOVIL)).toBe(Currency.VES);
+    expect(resolvePaymentCurrency(PaymentMethod.EFECTIVO)).toBe(Currency.USD);
+    expect(resolvePaymentCurrency(PaymentMethod.EFECTIVO, Currency.VES)).toBe(
+      Currency.VES,
+    );
+    expect(resolvePaymentCurrency(PaymentMethod.STORE_CREDIT)).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+import { Currency, PaymentMethod, Prisma } from '@prisma/client';
+
+/**
+ * Alícuotas vigentes (fracciones: 0.16 = 16%)
+ */
+export interface TaxRates {
+  iva: Prisma.Decimal;
+  igtf: Prisma.Decimal;
+}
+
+/**
+ * Línea a gravar: precio unitario en USD sin impuestos
+ */
+export interface TaxableLine {
+  price: Prisma.Decimal.Value;
+  quantity: number;
+  taxExempt: boolean;
+}
+
+export interface TaxBreakdown {
+  /** IVA por línea, en el mismo orden recibido */
+  lines: {
+    subtotal: Prisma.Decimal;
+    taxRate: Prisma.Decimal;
+    taxAmount: Prisma.Decimal;
+  }[];
+  subtotal: Prisma.Decimal;
+  taxableBase: Prisma.Decimal;
+  exemptBase: Prisma.Decimal;
+  ivaRate: Prisma.Decimal;
+  iva: Prisma.Decimal;
+  shippingCost: Prisma.Decimal;
+  /** null si el pago no es en divisas */
+  igtfRate: Prisma.Decimal | null;
+  igtf: Prisma.Decimal;
+  total: Prisma.Decimal;
+}
+
+/**
+ * Moneda en que se paga según el método
+ * Zelle siempre es en divisas, Pago Móvil y transferencias en Bs;
+ * en efectivo el cliente elige (por defecto USD).
+ * Con saldo a favor no hay pago en ninguna moneda (undefined: sin IGTF)
+ */
+export function resolvePaymentCurrency(
+  method: PaymentMethod,
+  requested?: Currency,
+): Currency | undefined {
+  switch (method) {
+    case PaymentMethod.ZELLE:
+      return Currency.USD;
+    case PaymentMethod.EFECTIVO:
+      return requested ?? Currency.USD;
+    case PaymentMethod.STORE_CREDIT:
+      return undefined;
+    default:
+      return Currency.VES;
+  }
+}
+
+/**
+ * Calcula IVA por línea (exentas al 0%) e IGTF sobre el monto pagado en divisas
+ * - El IVA se redondea por línea a 2 decimales
+ * - El IGTF se aplica sobre subtotal + IVA + envío cuando paymentCurrency es USD,
+ *   menos storeCredit (la parte pagada con saldo a favor no lleva IGTF)
+ */
+export function calculateTaxes(
+  lines: TaxableLine[],
+  rates: TaxRates,
+  paymentCurrency?: Currency,
+  shippingCost: Prisma.Decimal.Value = 0,
+  storeCredit: Prisma.Decimal.Value = 0,
+): TaxBreakdown {
+  const zero = new Prisma.Decimal(0);
+
+  const taxedLines = lines.map((line) => {
+    const subtotal = new Prisma.Decimal(line.price).mul(line.quantity);
+    const taxRate = line.taxExempt ? zero : rates.iva;
+
+    return {
+      subtotal,
+      taxRate,
+      taxAmount: subtotal.mul(taxRate).toDecimalPlaces(2),
+      taxExempt: line.taxExempt,
+    };
+  });
+
+  const sum = (values: Prisma.Decimal[]) =>
+    values.reduce((acc, value) => acc.add(value), zero);
+
+  const subtotal = sum(taxedLines.map((line) => line.subtotal));
+  const exemptBase = sum(
+    taxedLines.filter((line) => line.taxExempt).map((line) => line.subtotal),
+  );
+  const iva = sum(taxedLines.map((line) => line.taxAmount));
+  const shipping = new Prisma.Decimal(shippingCost);
+  const beforeIgtf = subtotal.add(iva).add(shipping);
+
+  const igtfRate = paymentCurrency === Currency.USD ? rates.igtf : null;
+  const igtfBase = Prisma.Decimal.max(zero, beforeIgtf.sub(storeCredit));
+  const igtf = igtfRate ? igtfBase.mul(igtfRate).toDecimalPlaces(2) : zero;
+
+  return {
+    lines: taxedLines.map(({ subtotal, taxRate, taxAmount }) => ({
+      subtotal,
+      taxRate,
+      taxAmount,
+    })),
+    subtotal,
+    taxableBase: subtotal.sub(exemptBase),
+    exemptBase,
+    ivaRate: rates.iva,
+    iva,
+    shippingCost: shipping,
+    igtfRate,
+    igtf,
+    total: beforeIgtf.add(igtf),
+  };
+}
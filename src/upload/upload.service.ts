@@ -3,12 +3,27 @@ import { v2 as cloudinary } from 'cloudinary';
 import { UploadResponseDto } from './dto/upload-response.dto';
 import { Readable } from 'stream';
 
+/**
+ * Opciones de subida de imágenes
+ */
+export interface UploadImageOptions {
+  folder?: string;
+  private?: boolean;
+}
+
 @Injectable()
 export class UploadService {
   /**
    * Subir una imagen a Cloudinary
+   * - folder: carpeta destino (por defecto la de productos)
+   * - private: se sube como "authenticated"; solo se puede ver con una
+   *   URL firmada (ver getPrivateImageUrl). Usado para comprobantes de pago
+   *   y fotos de devoluciones
    */
-  async uploadImage(file: Express.Multer.File): Promise<UploadResponseDto> {
+  async uploadImage(
+    file: Express.Multer.File,
+    options: UploadImageOptions = {},
+  ): Promise<UploadResponseDto> {
     // Validar que el archivo exista
     if (!file) {
       throw new BadRequestException('No se proporcionó ningún archivo');
@@ -40,7 +55,8 @@ export class UploadService {
       const uploadResult = await new Promise((resolve, reject) => {
         const uploadStream = cloudinary.uploader.upload_stream(
           {
-            folder: 'delcarajo/products',
+            folder: options.folder ?? 'delcarajo/products',
+            type: options.private ? 'authenticated' : 'upload',
             resource_type: 'image',
             transformation: [
               { width: 1920, height: 1920, crop: 'limit' },
@@ -98,6 +114,19 @@ export class UploadService {
     }
   }
 
+  /**
+   * URL firmada para ver una imagen privada ("authenticated")
+   * Sin la firma Cloudinary responde 401
+   */
+  getPrivateImageUrl(publicId: string): string {
+    return cloudinary.url(publicId, {
+      type: 'authenticated',
+      resource_type: 'image',
+      sign_url: true,
+      secure: true,
+    });
+  }
+
   /**
    * Eliminar una imagen de Cloudinary
    */
@@ -0,0 +1,64 @@
+import {
+  IsString,
+  IsOptional,
+  IsUrl,
+  MaxLength,
+  MinLength,
+  Matches,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import {
+  VENEZUELAN_PHONE_REGEX,
+  normalizeVenezuelanPhone,
+} from '../../common/utils/phone.util';
+
+/**
+ * DTO para que el usuario edite su propio perfil
+ */
+export class UpdateProfileDto {
+  /**
+   * Nombre completo
+   * @example "Juan Pérez"
+   */
+  @IsString({ message: 'name debe ser un texto' })
+  @IsOptional()
+  @MaxLength(100, { message: 'name no puede exceder 100 caracteres' })
+  name?: string;
+
+  /**
+   * Apodo público (único)
+   * @example "juanchito_ccs"
+   */
+  @IsString({ message: 'nickname debe ser un texto' })
+  @IsOptional()
+  @MinLength(3, { message: 'nickname debe tener al menos 3 caracteres' })
+  @MaxLength(30, { message: 'nickname no puede exceder 30 caracteres' })
+  @Matches(/^[a-zA-Z0-9_.]+$/, {
+    message:
+      'nickname solo puede contener letras, números, puntos y guiones bajos',
+  })
+  nickname?: string;
+
+  /**
+   * Teléfono venezolano (se guarda como +58XXXXXXXXXX)
+   * @example "0424-1234567"
+   */
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? normalizeVenezuelanPhone(value) : value,
+  )
+  @IsString({ message: 'phone debe ser un texto' })
+  @IsOptional()
+  @Matches(VENEZUELAN_PHONE_REGEX, {
+    message:
+      'phone debe ser un teléfono venezolano válido (ej: 0424-1234567 o +58 212 1234567)',
+  })
+  phone?: string;
+
+  /**
+   * URL del avatar (Cloudinary o Google)
+   * @example "https://res.cloudinary.com/delcarajo/image/upload/v1234567890/avatars/juan.jpg"
+   */
+  @IsUrl({}, { message: 'avatar debe ser una URL válida' })
+  @IsOptional()
+  avatar?: string;
+}
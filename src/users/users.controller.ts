@@ -1,4 +1,51 @@
-import { Controller } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { UsersService } from './users.service';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthRequest } from '../common/interfaces/auth-request.interface';
 
+/**
+ * Controlador de la cuenta del usuario autenticado
+ * Todos los endpoints requieren autenticación
+ */
 @Controller('users')
-export class UsersController {}
+@UseGuards(JwtAuthGuard)
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  /**
+   * GET /users/me
+   * Obtener el perfil completo con cantidad de órdenes
+   * y dirección predeterminada
+   */
+  @Get('me')
+  async getMe(@Request() req: AuthRequest) {
+    return this.usersService.getProfile(req.user.id);
+  }
+
+  /**
+   * PATCH /users/me
+   * Editar nombre, apodo, teléfono o avatar
+   */
+  @Patch('me')
+  async updateMe(@Request() req: AuthRequest, @Body() dto: UpdateProfileDto) {
+    return this.usersService.updateProfile(req.user.id, dto);
+  }
+
+  /**
+   * DELETE /users/me
+   * Desactivar la cuenta (soft delete) y cerrar todas las sesiones
+   */
+  @Delete('me')
+  async deactivateMe(@Request() req: AuthRequest) {
+    return this.usersService.deactivate(req.user.id);
+  }
+}
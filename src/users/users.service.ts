@@ -1,4 +1,122 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuthService } from '../auth/auth.service';
+import { UpdateProfileDto } from './dto/update-profile.dto';
 
+/**
+ * Servicio de autogestión del perfil
+ * - El usuario solo puede ver/editar su propia cuenta
+ * - Desactivar la cuenta es un soft delete (isActive = false)
+ */
 @Injectable()
-export class UsersService {}
+export class UsersService {
+  constructor(
+    private prisma: PrismaService,
+    private authService: AuthService,
+  ) {}
+
+  /**
+   * Obtener el perfil completo del usuario
+   * Incluye cantidad de órdenes y dirección predeterminada
+   */
+  async getProfile(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        nickname: true,
+        avatar: true,
+        phone: true,
+        role: true,
+        emailVerifiedAt: true,
+        passwordHash: true,
+        createdAt: true,
+        addresses: {
+          where: { isDefault: true, isActive: true },
+          take: 1,
+        },
+        _count: {
+          select: { orders: true },
+        },
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+
+    const { passwordHash, addresses, _count, ...profile } = user;
+
+    return {
+      ...profile,
+      hasPassword: passwordHash !== null,
+      ordersCount: _count.orders,
+      defaultAddress: addresses[0] ?? null,
+    };
+  }
+
+  /**
+   * Actualizar nombre, apodo, teléfono o avatar
+   * El apodo debe ser único (sin distinguir mayúsculas); el índice único
+   * sobre LOWER(nickname) resuelve dos cambios simultáneos al mismo apodo
+   */
+  async updateProfile(userId: string, dto: UpdateProfileDto) {
+    if (dto.nickname) {
+      const existingUser = await this.prisma.user.findFirst({
+        where: {
+          nickname: { equals: dto.nickname, mode: 'insensitive' },
+          NOT: { id: userId },
+        },
+      });
+
+      if (existingUser) {
+        throw new ConflictException(
+          `El apodo "${dto.nickname}" ya está en uso`,
+        );
+      }
+    }
+
+    await this.prisma.user
+      .update({
+        where: { id: userId },
+        data: dto,
+      })
+      .catch((error: unknown) => {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          throw new ConflictException(
+            `El apodo "${dto.nickname}" ya está en uso`,
+          );
+        }
+        throw error;
+      });
+
+    return this.getProfile(userId);
+  }
+
+  /**
+   * Desactivar la cuenta (soft delete)
+   * Cierra todas las sesiones: los tokens dejan de funcionar de inmediato
+   */
+  async deactivate(userId: string) {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { isActive: false },
+    });
+
+    await this.authService.revokeAllSessions(userId, 'account_deactivated');
+
+    return {
+      message: 'Tu cuenta fue desactivada',
+    };
+  }
+}